@@ -0,0 +1,88 @@
+/**
+ * AdherenceCalendar - Heatmap of logged/hit/missed days
+ *
+ * TypeScript Concepts:
+ * - Building a week x weekday grid from a date map
+ * - Lookup records for class names and labels
+ */
+
+import { addDays, parseDateKey, toDateKey } from './dateKeys';
+import { getWeekStart } from './chartRange';
+import { CALENDAR_WEEKS } from './adherence';
+import type { DayStatus } from './adherence';
+
+interface AdherenceCalendarProps {
+  /** Status per "YYYY-MM-DD" (missing dates render as empty) */
+  statuses: Map<string, DayStatus>;
+  /** Number of weeks to show, ending with the current week */
+  weeks?: number;
+  /** Last date to show (defaults to today) */
+  today?: Date;
+}
+
+const STATUS_LABELS: Record<DayStatus, string> = {
+  empty: 'Not logged',
+  hit: 'Hit',
+  missed: 'Missed',
+};
+
+const WEEKDAY_LABELS = ['M', '', 'W', '', 'F', '', ''];
+
+/**
+ * Tooltip text, e.g. "Mar 14: Hit"
+ */
+function formatCellTitle(dateKey: string, status: DayStatus): string {
+  const label = parseDateKey(dateKey).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${label}: ${STATUS_LABELS[status]}`;
+}
+
+/**
+ * AdherenceCalendar - One column per week (Mon-Sun), newest on the right
+ */
+function AdherenceCalendar({ statuses, weeks = CALENDAR_WEEKS, today = new Date() }: AdherenceCalendarProps) {
+  const end = toDateKey(today);
+  const firstWeek = addDays(getWeekStart(end), -7 * (weeks - 1));
+  const columns = Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => addDays(firstWeek, week * 7 + weekday))
+  );
+
+  return (
+    <div className="adherence-calendar">
+      <div className="adherence-calendar-grid">
+        <div className="adherence-calendar-column">
+          {WEEKDAY_LABELS.map((label, index) => (
+            <span key={index} className="adherence-calendar-weekday">{label}</span>
+          ))}
+        </div>
+        {columns.map((dates) => (
+          <div key={dates[0]} className="adherence-calendar-column">
+            {dates.map((date) => {
+              if (date > end) {
+                return <span key={date} className="adherence-calendar-cell adherence-calendar-cell--future" />;
+              }
+              const status = statuses.get(date) ?? 'empty';
+              return (
+                <span
+                  key={date}
+                  className={`adherence-calendar-cell adherence-calendar-cell--${status}`}
+                  title={formatCellTitle(date, status)}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="adherence-calendar-legend">
+        {(Object.keys(STATUS_LABELS) as DayStatus[]).map((status) => (
+          <span key={status} className="adherence-calendar-legend-item">
+            <span className={`adherence-calendar-cell adherence-calendar-cell--${status}`} />
+            {STATUS_LABELS[status]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default AdherenceCalendar;
@@ -0,0 +1,151 @@
+/**
+ * AdherenceStats - Streaks, hit rate and heatmap for the Overview page
+ *
+ * TypeScript Concepts:
+ * - Local state for view options
+ * - Deriving all numbers from one shared module
+ */
+
+import { useState } from 'react';
+import {
+  ADHERENCE_METRIC_OPTIONS,
+  ADHERENCE_RANGE_OPTIONS,
+  CALENDAR_WEEKS,
+  CALORIE_TOLERANCE_OPTIONS,
+  DEFAULT_CALORIE_TOLERANCE,
+  calculateAdherence,
+  calculateStreaks,
+  getStatusByDate,
+} from './adherence';
+import type { AdherenceGoals, AdherenceMetric } from './adherence';
+import type { ChartRange } from './chartRange';
+import type { PhaseLookup } from './cycleTracking';
+import { addDays, toDateKey } from './dateKeys';
+import type { GoalValues, GoalVersion } from './goalHistory';
+import type { DayRecord } from './healthRecords';
+import AdherenceCalendar from './AdherenceCalendar';
+
+interface AdherenceStatsProps {
+  /** All logged days */
+  days: DayRecord[];
+  /** Goal versions, so past days use past goals */
+  goalHistory: GoalVersion[];
+  /** Current goals and schedule */
+  currentGoals: GoalValues;
+  /** Count workout calories toward the calorie goal (profile.addExerciseCalories) */
+  addExerciseCalories?: boolean;
+  /** Cycle phase per date, so phase calorie adjustments move the calorie goal */
+  phaseOf?: PhaseLookup | null;
+}
+
+const METRIC_HINTS: Record<AdherenceMetric, string> = {
+  logged: 'Days with food logged',
+  calories: 'Days within range of your calorie goal',
+  protein: 'Days at or above your protein goal',
+};
+
+/**
+ * "1 day" / "5 days"
+ */
+function formatDays(count: number): string {
+  return `${count} ${count === 1 ? 'day' : 'days'}`;
+}
+
+/**
+ * AdherenceStats - Metric picker, streak cards, hit rate and calendar
+ */
+function AdherenceStats({
+  days,
+  goalHistory,
+  currentGoals,
+  addExerciseCalories = false,
+  phaseOf = null,
+}: AdherenceStatsProps) {
+  const [metric, setMetric] = useState<AdherenceMetric>('logged');
+  const [range, setRange] = useState<ChartRange>('30d');
+  const [tolerance, setTolerance] = useState(DEFAULT_CALORIE_TOLERANCE);
+
+  const goals: AdherenceGoals = {
+    history: goalHistory,
+    current: currentGoals,
+    calorieTolerance: tolerance,
+    addExerciseCalories,
+    phaseOf,
+  };
+  const today = new Date();
+  const todayKey = toDateKey(today);
+
+  const streaks = calculateStreaks(days, metric, goals, today);
+  const adherence = calculateAdherence(days, range, metric, goals, today);
+  const calendarStatuses = getStatusByDate(days, addDays(todayKey, -7 * CALENDAR_WEEKS), todayKey, metric, goals);
+
+  return (
+    <div className="adherence-stats">
+      {/* Metric */}
+      <div className="cycle-toggle-buttons">
+        {ADHERENCE_METRIC_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            className={`cycle-toggle-button ${metric === option.value ? 'active' : ''}`}
+            onClick={() => setMetric(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="adherence-stats-hint">
+        {METRIC_HINTS[metric]}
+        {metric === 'calories' && (
+          <select
+            className="metric-chart-select"
+            value={tolerance}
+            onChange={(e) => setTolerance(parseInt(e.target.value))}
+          >
+            {CALORIE_TOLERANCE_OPTIONS.map((option) => (
+              <option key={option} value={option}>±{option}%</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Streaks */}
+      <div className="adherence-stats-cards">
+        <div className="adherence-stat">
+          <span className="adherence-stat-label">Current streak</span>
+          <span className="adherence-stat-value">{formatDays(streaks.current)}</span>
+        </div>
+        <div className="adherence-stat">
+          <span className="adherence-stat-label">Longest streak</span>
+          <span className="adherence-stat-value">{formatDays(streaks.longest)}</span>
+        </div>
+        <div className="adherence-stat">
+          <span className="adherence-stat-label">
+            Adherence
+            <select
+              className="adherence-stat-range"
+              value={range}
+              onChange={(e) => setRange(e.target.value as ChartRange)}
+            >
+              {ADHERENCE_RANGE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </span>
+          <span className="adherence-stat-value">
+            {adherence.percent !== null ? `${adherence.percent}%` : '—'}
+          </span>
+          <span className="adherence-stat-detail">
+            {metric === 'logged'
+              ? `${adherence.loggedDays} of ${formatDays(adherence.totalDays)}`
+              : `${adherence.hitDays} of ${adherence.loggedDays} logged`}
+          </span>
+        </div>
+      </div>
+
+      <AdherenceCalendar statuses={calendarStatuses} today={today} />
+    </div>
+  );
+}
+
+export default AdherenceStats;
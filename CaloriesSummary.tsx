@@ -8,30 +8,42 @@
 import { calculateCalories } from '../../context/AppContext';
 
 interface CaloriesSummaryProps {
-  /** Protein in grams */
+  /** Protein in grams (sum of the day's entries) */
   protein: number;
   /** Carbs in grams */
   carbs: number;
   /** Fat in grams */
   fat: number;
-  /** Daily calorie goal */
+  /** Calorie goal for this date (from the goal schedule) */
   goal: number;
+  /** Which schedule entry set the goal, e.g. "Training day" (null for the default) */
+  goalLabel?: string | null;
+  /** Workout calories added to the budget (0 when that setting is off) */
+  exerciseCalories?: number;
 }
 
 /**
  * CaloriesSummary - Card showing total calculated calories
  * 
  * Calories are calculated: (protein * 4) + (carbs * 4) + (fat * 9)
+ * Budget = goal + workout calories (when the user opted in)
  */
-function CaloriesSummary({ protein, carbs, fat, goal }: CaloriesSummaryProps) {
+function CaloriesSummary({ protein, carbs, fat, goal, goalLabel = null, exerciseCalories = 0 }: CaloriesSummaryProps) {
   const calories = calculateCalories(protein, carbs, fat);
+  const budget = goal + exerciseCalories;
   
   return (
     <div className="calories-summary">
-      <span className="calories-summary-label">Total Calories</span>
+      <span className="calories-summary-label">
+        Total Calories
+        {goalLabel && <span className="calories-summary-source">{goalLabel} goal</span>}
+        {exerciseCalories > 0 && (
+          <span className="calories-summary-source">+{exerciseCalories.toLocaleString()} kcal from exercise</span>
+        )}
+      </span>
       <span className="calories-summary-value">
         {calories.toLocaleString()}
-        <span className="calories-summary-goal"> / {goal.toLocaleString()} kcal</span>
+        <span className="calories-summary-goal"> / {budget.toLocaleString()} kcal</span>
       </span>
     </div>
   );
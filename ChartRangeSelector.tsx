@@ -1,38 +1,74 @@
 /**
  * ChartRangeSelector - Dropdown for selecting chart time range
- * 
+ *
  * TypeScript Concepts:
  * - Union types for range values
+ * - Conditional rendering for the custom range inputs
  */
 
 import { ChevronDown } from 'lucide-react';
+import { CHART_RANGE_OPTIONS } from './chartRange';
+import type { ChartRange, CustomDateRange } from './chartRange';
 
 interface ChartRangeSelectorProps {
   /** Selected range */
-  value: '7d' | '14d' | '30d';
+  value: ChartRange;
   /** Change handler */
-  onChange: (value: '7d' | '14d' | '30d') => void;
+  onChange: (value: ChartRange) => void;
+  /** Start/end dates when value is "custom" */
+  customRange?: CustomDateRange | null;
+  /** Custom range change handler */
+  onCustomRangeChange?: (range: CustomDateRange) => void;
 }
 
 /**
- * ChartRangeSelector - Time range dropdown
+ * ChartRangeSelector - Time range dropdown with optional custom dates
  */
-function ChartRangeSelector({ value, onChange }: ChartRangeSelectorProps) {
+function ChartRangeSelector({ value, onChange, customRange = null, onCustomRangeChange }: ChartRangeSelectorProps) {
+  const handleDateChange = (field: keyof CustomDateRange, date: string) => {
+    if (!onCustomRangeChange || !date) return;
+    const current = customRange ?? { start: date, end: date };
+    onCustomRangeChange({ ...current, [field]: date });
+  };
+
   return (
-    <div className="chart-range-selector">
-      <select
-        className="chart-range-select"
-        value={value}
-        onChange={(e) => onChange(e.target.value as '7d' | '14d' | '30d')}
-      >
-        <option value="7d">7d</option>
-        <option value="14d">14d</option>
-        <option value="30d">30d</option>
-      </select>
-      <ChevronDown size={16} className="chart-range-chevron" />
+    <div className="chart-range-wrapper">
+      <div className="chart-range-selector">
+        <select
+          className="chart-range-select"
+          value={value}
+          onChange={(e) => onChange(e.target.value as ChartRange)}
+        >
+          {CHART_RANGE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <ChevronDown size={16} className="chart-range-chevron" />
+      </div>
+
+      {value === 'custom' && (
+        <div className="chart-range-custom">
+          <input
+            type="date"
+            className="chart-range-date"
+            value={customRange?.start ?? ''}
+            max={customRange?.end}
+            onChange={(e) => handleDateChange('start', e.target.value)}
+          />
+          <span className="chart-range-separator">–</span>
+          <input
+            type="date"
+            className="chart-range-date"
+            value={customRange?.end ?? ''}
+            min={customRange?.start}
+            onChange={(e) => handleDateChange('end', e.target.value)}
+          />
+        </div>
+      )}
     </div>
   );
 }
 
 export default ChartRangeSelector;
-
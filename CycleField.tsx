@@ -14,7 +14,7 @@ interface CycleFieldProps {
   label: string;
   /** Field value (number or date string) */
   value: number | string | null;
-  /** Change handler */
+  /** Save handler (resolves once the change is queued, see createQueuedSaves) */
   onChange: (value: number | string) => Promise<void>;
   /** Unit: "days" (not used for date) */
   unit?: string;
@@ -1,52 +1,128 @@
 /**
  * CycleSection - Cycle tracking section with phase badge and period toggle
- * 
+ *
  * TypeScript Concepts:
  * - Boolean toggle state
  * - Conditional class names
+ * - Lookup records for labels
  */
 
+import { useState } from 'react';
 import CycleBadge from '../dashboard/CycleBadge';
-import type { CyclePhase } from '../../context/AppContext';
+import { CYCLE_HISTORY_COUNT, MIN_LEARNED_CYCLES } from './cycleTracking';
+import type { CycleSummary, IrregularityReason, PeriodPrediction } from './cycleTracking';
+import { daysBetween, parseDateKey } from './dateKeys';
 
 interface CycleSectionProps {
-  /** Current cycle phase */
-  phase: CyclePhase;
-  /** Day within cycle */
-  cycleDay: number;
-  /** Days until next predicted period */
-  nextPeriodIn: number;
+  /** Cycle history, learned stats, today's phase and next-period window (from summarizeCycles) */
+  summary: CycleSummary;
+  /** "YYYY-MM-DD" */
+  today: string;
   /** Today's period status */
   isPeriodDay: boolean;
   /** Update handler */
   onPeriodDayChange: (value: boolean) => void;
 }
 
+const IRREGULARITY_LABELS: Record<IrregularityReason, string> = {
+  'variable-length': 'Your cycle length varies by more than a week',
+  'outside-typical-range': 'Your average cycle is outside the typical 21–35 days',
+};
+
+/**
+ * "Oct 24"
+ */
+function formatDay(dateKey: string): string {
+  return parseDateKey(dateKey).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+/**
+ * "Next period Oct 24 – Oct 28 (in 5–9 days)", or a late notice
+ */
+function describePrediction(prediction: PeriodPrediction, today: string): string {
+  if (prediction.isLate) {
+    return `Period is later than expected (due by ${formatDay(prediction.latest)})`;
+  }
+
+  const fromDays = Math.max(0, daysBetween(today, prediction.earliest));
+  const toDays = daysBetween(today, prediction.latest);
+  const inDays = fromDays === 0 ? `within ${toDays} days` : `in ${fromDays}–${toDays} days`;
+  return `Next period ${formatDay(prediction.earliest)} – ${formatDay(prediction.latest)} (${inDays})`;
+}
+
 /**
  * CycleSection - Cycle info with Yes/No toggle for period day
  */
-function CycleSection({ 
-  phase, 
-  cycleDay, 
-  nextPeriodIn, 
-  isPeriodDay, 
-  onPeriodDayChange 
+function CycleSection({
+  summary,
+  today,
+  isPeriodDay,
+  onPeriodDayChange
 }: CycleSectionProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const { history, stats, prediction, position } = summary;
+  const recentCycles = history.slice(-CYCLE_HISTORY_COUNT).reverse();
+
   return (
     <div>
-      {/* Phase badge */}
-      <div className="cycle-section-badge">
-        <CycleBadge phase={phase} day={cycleDay} />
-      </div>
-      
+      {/* Phase badge, from the same learned cycle as the prediction */}
+      {position && (
+        <div className="cycle-section-badge">
+          <CycleBadge phase={position.phase} day={position.cycleDay} />
+        </div>
+      )}
+
       {/* Prediction */}
       <div className="cycle-section-prediction">
-        Next period in ~{nextPeriodIn} days
+        {prediction ? describePrediction(prediction, today) : 'Log period days to predict your next period'}
+      </div>
+
+      {/* What the prediction is based on */}
+      <div className="cycle-section-stats">
+        {stats.cycleCount > 0
+          ? `Avg cycle ${stats.cycleLength} days` +
+            (stats.lengthRange ? ` (${stats.lengthRange[0]}–${stats.lengthRange[1]})` : '') +
+            ` · period ${stats.periodDays} days · last ${stats.cycleCount} cycles`
+          : `Using your settings until ${MIN_LEARNED_CYCLES} cycles are logged`}
       </div>
-      
+
+      {stats.irregularities.length > 0 && (
+        <div className="cycle-section-irregular">
+          {stats.irregularities.map((reason) => (
+            <div key={reason}>{IRREGULARITY_LABELS[reason]}</div>
+          ))}
+        </div>
+      )}
+
+      {recentCycles.length > 0 && (
+        <div className="cycle-section-history-block">
+          <button
+            type="button"
+            className="cycle-section-history-toggle"
+            onClick={() => setShowHistory((prev) => !prev)}
+          >
+            {showHistory ? 'Hide' : 'Show'} cycle history
+          </button>
+          {showHistory && (
+            <ul className="cycle-section-history">
+              {recentCycles.map((cycle) => (
+                <li key={cycle.start} className="cycle-section-history-item">
+                  <span>{formatDay(cycle.start)}</span>
+                  <span className="cycle-section-history-detail">
+                    {cycle.length === null ? 'Current' : `${cycle.length} days`}
+                    {!cycle.isPlausible && ' (missed days?)'}
+                    {cycle.periodDays !== null && ` · period ${cycle.periodDays}d`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Period day question */}
       <div className="cycle-section-question">Period day?</div>
-      
+
       {/* Yes/No toggle */}
       <div className="cycle-toggle-buttons">
         <button
@@ -67,4 +143,3 @@ function CycleSection({
 }
 
 export default CycleSection;
-
@@ -0,0 +1,77 @@
+/**
+ * DataExport - CSV and JSON export buttons for the Overview page
+ *
+ * TypeScript Concepts:
+ * - Lazy data access via callback props
+ * - Union types for export formats
+ */
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import PrimaryButton from '../ui/PrimaryButton';
+import { buildBackupJson, buildDailyCsv, downloadTextFile, getExportFilename } from './backupExport';
+import type { HealthData } from './healthRecords';
+
+type ExportFormat = 'csv' | 'json';
+
+interface DataExportProps {
+  /** Loads everything to export (all days, not just the chart range) */
+  loadData: () => Promise<HealthData>;
+}
+
+/**
+ * DataExport - Download per-day CSV or full JSON backup
+ */
+function DataExport({ loadData }: DataExportProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const data = await loadData();
+      if (format === 'csv') {
+        downloadTextFile(getExportFilename('csv'), buildDailyCsv(data.days, data.profile.unitSystem), 'text/csv');
+      } else {
+        downloadTextFile(getExportFilename('json'), buildBackupJson(data), 'application/json');
+      }
+    } catch (err) {
+      console.error('Failed to export data:', err);
+      setError('Export failed. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="data-export">
+      <p className="data-export-description">
+        CSV has one row per day for spreadsheets. The JSON backup also includes goals, profile and cycle settings.
+      </p>
+
+      <div className="data-export-buttons">
+        <PrimaryButton
+          variant="small"
+          onClick={() => handleExport('csv')}
+          disabled={exporting !== null}
+        >
+          <Download size={16} />
+          {exporting === 'csv' ? 'Exporting...' : 'Export CSV'}
+        </PrimaryButton>
+        <PrimaryButton
+          variant="small"
+          onClick={() => handleExport('json')}
+          disabled={exporting !== null}
+        >
+          <Download size={16} />
+          {exporting === 'json' ? 'Exporting...' : 'Export JSON'}
+        </PrimaryButton>
+      </div>
+
+      {error && <div className="data-export-error">{error}</div>}
+    </div>
+  );
+}
+
+export default DataExport;
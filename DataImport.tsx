@@ -0,0 +1,227 @@
+/**
+ * DataImport - Import history from a backup or another tracker's CSV
+ *
+ * Flow: choose file -> confirm format (and CSV columns) -> preview
+ * new days and conflicts -> pick skip/merge/overwrite -> import.
+ *
+ * TypeScript Concepts:
+ * - File reading with async/await
+ * - Derived preview state
+ * - Record iteration for column mapping selects
+ */
+
+import { useState } from 'react';
+import PrimaryButton from '../ui/PrimaryButton';
+import {
+  CONFLICT_STRATEGY_OPTIONS,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FORMAT_OPTIONS,
+  applyImport,
+  detectImportFormat,
+  guessColumnMapping,
+  parseCsv,
+  parseImportFile,
+  previewImport,
+} from './backupImport';
+import type { ColumnMapping, ConflictStrategy, ImportField, ImportFormat } from './backupImport';
+import type { DayRecord, HealthData } from './healthRecords';
+
+interface DataImportProps {
+  /** Days already logged (for conflict detection) */
+  existingDays: DayRecord[];
+  /** Save handler: changed days, plus settings when restoring a backup */
+  onImport: (days: DayRecord[], settings: Omit<HealthData, 'days'> | null) => Promise<void>;
+}
+
+/** Max conflicting dates listed in the preview */
+const MAX_CONFLICTS_SHOWN = 5;
+
+/**
+ * DataImport - File picker, preview and conflict strategy
+ */
+function DataImport({ existingDays, onImport }: DataImportProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileText, setFileText] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>('merge');
+  const [restoreSettings, setRestoreSettings] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  const headers = fileText ? parseCsv(fileText)[0] ?? [] : [];
+  const parsed = fileText ? parseImportFile(format, fileText, mapping) : null;
+  const preview = parsed ? previewImport(existingDays, parsed.days) : null;
+  // A settings-only backup can still be restored
+  const canImport = parsed !== null && (parsed.days.length > 0 || (restoreSettings && parsed.settings !== null));
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      setFileName(null);
+      setFileText('');
+      setResultMessage(`Couldn't read ${file.name}. Try choosing it again.`);
+      return;
+    }
+
+    const detected = detectImportFormat(file.name, text);
+    setFileName(file.name);
+    setFileText(text);
+    setFormat(detected);
+    setMapping(detected === 'csv' ? guessColumnMapping(parseCsv(text)[0] ?? []) : null);
+    setResultMessage(null);
+  };
+
+  const handleMappingChange = (field: ImportField, header: string) => {
+    const current = mapping ?? guessColumnMapping(headers);
+    setMapping({ ...current, [field]: header || null });
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    const changedDays = applyImport(existingDays, parsed.days, strategy);
+    const settings = restoreSettings ? parsed.settings : null;
+
+    setIsImporting(true);
+    try {
+      await onImport(changedDays, settings);
+      setResultMessage(
+        `Imported ${changedDays.length} day${changedDays.length === 1 ? '' : 's'}${settings ? ' and restored settings' : ''}`
+      );
+      setFileText('');
+      setFileName(null);
+    } catch (error) {
+      console.error('Failed to import data:', error);
+      setResultMessage('Import failed. Nothing was changed.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="data-import">
+      <label className="data-import-file">
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <span>{fileName ?? 'Choose a CSV or JSON file'}</span>
+      </label>
+
+      {fileText && (
+        <>
+          {/* Format */}
+          <div className="data-import-row">
+            <span className="data-import-label">Format</span>
+            <select
+              className="data-import-select"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ImportFormat)}
+            >
+              {IMPORT_FORMAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Column mapping for generic CSV */}
+          {format === 'csv' && (
+            <div className="data-import-mapping">
+              {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => (
+                <div key={field} className="data-import-row">
+                  <span className="data-import-label">{IMPORT_FIELD_LABELS[field]}</span>
+                  <select
+                    className="data-import-select"
+                    value={(mapping ?? guessColumnMapping(headers))[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                  >
+                    <option value="">—</option>
+                    {headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Dry-run preview */}
+          {parsed && preview && (
+            <div className="data-import-preview">
+              <div className="data-import-preview-line">
+                {parsed.days.length} days in file · {preview.newDates.length} new ·{' '}
+                {preview.conflicts.length} conflicting · {preview.unchangedDates.length} unchanged
+              </div>
+
+              {preview.conflicts.slice(0, MAX_CONFLICTS_SHOWN).map((conflict) => (
+                <div key={conflict.date} className="data-import-conflict">
+                  {conflict.date}: {conflict.fields.map((f) => IMPORT_FIELD_LABELS[f]).join(', ')}
+                </div>
+              ))}
+              {preview.conflicts.length > MAX_CONFLICTS_SHOWN && (
+                <div className="data-import-conflict">
+                  and {preview.conflicts.length - MAX_CONFLICTS_SHOWN} more
+                </div>
+              )}
+
+              {parsed.warnings.length > 0 && (
+                <div className="data-import-warning">
+                  {parsed.warnings.length} row{parsed.warnings.length === 1 ? '' : 's'} skipped: {parsed.warnings[0]}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Conflict strategy */}
+          {preview && preview.conflicts.length > 0 && (
+            <div className="cycle-toggle-buttons">
+              {CONFLICT_STRATEGY_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  className={`cycle-toggle-button ${strategy === option.value ? 'active' : ''}`}
+                  onClick={() => setStrategy(option.value)}
+                  title={option.hint}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {parsed?.settings && (
+            <label className="data-import-checkbox">
+              <input
+                type="checkbox"
+                checked={restoreSettings}
+                onChange={(e) => setRestoreSettings(e.target.checked)}
+              />
+              Also restore goals, profile, cycle settings and saved foods
+            </label>
+          )}
+
+          <PrimaryButton
+            onClick={handleImport}
+            disabled={!canImport || isImporting}
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </PrimaryButton>
+        </>
+      )}
+
+      {resultMessage && <div className="data-import-result">{resultMessage}</div>}
+    </div>
+  );
+}
+
+export default DataImport;
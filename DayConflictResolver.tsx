@@ -0,0 +1,108 @@
+/**
+ * DayConflictResolver - Pick a value for fields edited on two devices
+ *
+ * TypeScript Concepts:
+ * - Partial records for per-field choices
+ * - Formatting values of mixed types
+ */
+
+import { useState } from 'react';
+import PrimaryButton from '../ui/PrimaryButton';
+import { resolveConflicts } from './dayMerge';
+import type { ConflictChoice, DayMergeResult } from './dayMerge';
+import { DAY_METRIC_LABELS } from './healthRecords';
+import type { DayMetricField, DayRecord } from './healthRecords';
+
+interface DayConflictResolverProps {
+  /** Merge result with at least one conflict */
+  result: DayMergeResult;
+  /** Save handler for the resolved record */
+  onResolve: (day: DayRecord) => Promise<void>;
+}
+
+/**
+ * Show a field value, with "—" for not logged
+ */
+function formatValue(value: DayRecord[DayMetricField]): string {
+  if (value === null) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  return value.toLocaleString();
+}
+
+/**
+ * Show when a side was edited, e.g. "Mar 14, 8:15 AM"
+ */
+function formatEditedAt(iso: string | null): string {
+  if (!iso) return '';
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * DayConflictResolver - This device vs other device, per field
+ */
+function DayConflictResolver({ result, onResolve }: DayConflictResolverProps) {
+  const [choices, setChoices] = useState<Partial<Record<DayMetricField, ConflictChoice>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const allChosen = result.conflicts.every((conflict) => choices[conflict.field]);
+
+  const handleResolve = async () => {
+    setIsSaving(true);
+    try {
+      await onResolve(resolveConflicts(result, choices));
+    } catch (error) {
+      console.error('Failed to save resolved day:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="day-conflict">
+      <div className="day-conflict-title">
+        {result.merged.date} was edited on another device
+      </div>
+
+      {result.conflicts.map((conflict) => (
+        <div key={conflict.field} className="day-conflict-field">
+          <div className="day-conflict-label">{DAY_METRIC_LABELS[conflict.field]}</div>
+          <div className="cycle-toggle-buttons">
+            <button
+              className={`cycle-toggle-button ${choices[conflict.field] === 'local' ? 'active' : ''}`}
+              onClick={() => setChoices((prev) => ({ ...prev, [conflict.field]: 'local' }))}
+            >
+              <span className="day-conflict-value">{formatValue(conflict.localValue)}</span>
+              <span className="day-conflict-source">
+                This device {formatEditedAt(conflict.localUpdatedAt)}
+              </span>
+            </button>
+            <button
+              className={`cycle-toggle-button ${choices[conflict.field] === 'remote' ? 'active' : ''}`}
+              onClick={() => setChoices((prev) => ({ ...prev, [conflict.field]: 'remote' }))}
+            >
+              <span className="day-conflict-value">{formatValue(conflict.remoteValue)}</span>
+              <span className="day-conflict-source">
+                Other device {formatEditedAt(conflict.remoteUpdatedAt)}
+              </span>
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <PrimaryButton
+        onClick={handleResolve}
+        disabled={!allChosen || isSaving}
+      >
+        {isSaving ? 'Saving...' : 'Keep Selected'}
+      </PrimaryButton>
+    </div>
+  );
+}
+
+export default DayConflictResolver;
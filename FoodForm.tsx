@@ -0,0 +1,147 @@
+/**
+ * FoodForm - Form for saving a new food to the library
+ *
+ * TypeScript Concepts:
+ * - Object state for multi-field forms
+ * - keyof for typed field updates
+ */
+
+import { useState } from 'react';
+import StyledInput from '../ui/StyledInput';
+import PrimaryButton from '../ui/PrimaryButton';
+import type { FoodInput } from './foodLibrary';
+
+interface FoodFormProps {
+  /** Save handler */
+  onSave: (food: FoodInput) => Promise<void>;
+  /** Optional starting values (e.g. from an import) */
+  initialValues?: Partial<FoodInput>;
+}
+
+type FoodFormValues = Record<'name' | 'servingSize' | 'protein' | 'carbs' | 'fat' | 'fiber', string>;
+
+const MACRO_FIELDS: { key: 'protein' | 'carbs' | 'fat'; label: string }[] = [
+  { key: 'protein', label: 'Protein' },
+  { key: 'carbs', label: 'Carbs' },
+  { key: 'fat', label: 'Fat' },
+];
+
+/**
+ * Convert optional starting values to form strings
+ */
+function toFormValues(values: Partial<FoodInput> = {}): FoodFormValues {
+  return {
+    name: values.name ?? '',
+    servingSize: values.servingSize ?? '1 serving',
+    protein: values.protein?.toString() ?? '',
+    carbs: values.carbs?.toString() ?? '',
+    fat: values.fat?.toString() ?? '',
+    fiber: values.fiber?.toString() ?? '',
+  };
+}
+
+/**
+ * FoodForm - Name, serving size and per-serving macros
+ */
+function FoodForm({ onSave, initialValues }: FoodFormProps) {
+  const [values, setValues] = useState<FoodFormValues>(toFormValues(initialValues));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateField = (key: keyof FoodFormValues, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // Blank macros count as 0; anything typed must be a non-negative number
+  const parseMacro = (value: string) => (value.trim() === '' ? 0 : parseFloat(value));
+  const macros = MACRO_FIELDS.map(({ key }) => parseMacro(values[key]));
+  const fiber = values.fiber.trim() === '' ? undefined : parseFloat(values.fiber);
+  const isValid = values.name.trim().length > 0
+    && values.servingSize.trim().length > 0
+    && macros.every((grams) => !isNaN(grams) && grams >= 0)
+    && (fiber === undefined || (!isNaN(fiber) && fiber >= 0));
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: values.name.trim(),
+        servingSize: values.servingSize.trim(),
+        protein: macros[0],
+        carbs: macros[1],
+        fat: macros[2],
+        ...(fiber !== undefined && { fiber }),
+        ...(initialValues?.upc && { upc: initialValues.upc }),
+      });
+      setValues(toFormValues());
+    } catch (error) {
+      console.error('Failed to save food:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="food-form">
+      <div className="food-form-row">
+        <label className="food-form-label">Name</label>
+        <StyledInput
+          type="text"
+          value={values.name}
+          onChange={(val) => updateField('name', val)}
+          placeholder="Greek yogurt"
+        />
+      </div>
+
+      <div className="food-form-row">
+        <label className="food-form-label">Serving</label>
+        <StyledInput
+          type="text"
+          value={values.servingSize}
+          onChange={(val) => updateField('servingSize', val)}
+          placeholder="1 cup"
+        />
+      </div>
+
+      <div className="food-form-macros">
+        {MACRO_FIELDS.map(({ key, label }) => (
+          <div key={key} className="food-form-macro">
+            <label className="food-form-label">{label}</label>
+            <div className="macro-input-field">
+              <StyledInput
+                type="number"
+                value={values[key]}
+                onChange={(val) => updateField(key, val)}
+                placeholder="0"
+              />
+              <span className="macro-input-suffix">g</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="food-form-row">
+        <label className="food-form-label">Fiber (optional)</label>
+        <div className="macro-input-field">
+          <StyledInput
+            type="number"
+            value={values.fiber}
+            onChange={(val) => updateField('fiber', val)}
+            placeholder="0"
+          />
+          <span className="macro-input-suffix">g</span>
+        </div>
+      </div>
+
+      <PrimaryButton
+        onClick={handleSave}
+        disabled={!isValid || isSaving}
+      >
+        {isSaving ? 'Saving...' : 'Save Food'}
+      </PrimaryButton>
+    </div>
+  );
+}
+
+export default FoodForm;
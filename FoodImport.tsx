@@ -0,0 +1,114 @@
+/**
+ * FoodImport - Paste a nutrition label or enter a barcode to pre-fill a food
+ *
+ * TypeScript Concepts:
+ * - Union types for input modes
+ * - Narrowing on discriminated results
+ * - key prop to reset a child form
+ */
+
+import { useState } from 'react';
+import StyledInput from '../ui/StyledInput';
+import PrimaryButton from '../ui/PrimaryButton';
+import FoodForm from './FoodForm';
+import { importFromLabelText, importFromUpc } from './nutritionImport';
+import type { NutritionImportResult } from './nutritionImport';
+import type { FoodInput } from './foodLibrary';
+
+type ImportMode = 'label' | 'upc';
+
+interface FoodImportProps {
+  /** Save handler for the confirmed food */
+  onSave: (food: FoodInput) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  servingSize: 'serving size',
+  protein: 'protein',
+  carbs: 'carbs',
+  fat: 'fat',
+  fiber: 'fiber',
+};
+
+/**
+ * FoodImport - Label/barcode input, then a confirmation form
+ */
+function FoodImport({ onSave }: FoodImportProps) {
+  const [mode, setMode] = useState<ImportMode>('label');
+  const [labelText, setLabelText] = useState('');
+  const [upcValue, setUpcValue] = useState('');
+  const [result, setResult] = useState<NutritionImportResult | null>(null);
+  const [importCount, setImportCount] = useState(0);
+
+  const handleImport = () => {
+    setResult(mode === 'label' ? importFromLabelText(labelText) : importFromUpc(upcValue));
+    setImportCount((count) => count + 1);
+  };
+
+  const handleSave = async (food: FoodInput) => {
+    await onSave(food);
+    setResult(null);
+    setLabelText('');
+    setUpcValue('');
+  };
+
+  const canImport = mode === 'label' ? labelText.trim().length > 0 : upcValue.trim().length > 0;
+
+  return (
+    <div className="food-import">
+      {/* Mode toggle */}
+      <div className="cycle-toggle-buttons">
+        <button
+          className={`cycle-toggle-button ${mode === 'label' ? 'active' : ''}`}
+          onClick={() => setMode('label')}
+        >
+          Paste label
+        </button>
+        <button
+          className={`cycle-toggle-button ${mode === 'upc' ? 'active' : ''}`}
+          onClick={() => setMode('upc')}
+        >
+          Barcode
+        </button>
+      </div>
+
+      {mode === 'label' ? (
+        <textarea
+          className="food-import-textarea"
+          value={labelText}
+          onChange={(e) => setLabelText(e.target.value)}
+          placeholder={'Serving size 1 cup (228g)\nTotal Fat 13g\nTotal Carbohydrate 31g\nDietary Fiber 0g\nProtein 5g'}
+          rows={6}
+        />
+      ) : (
+        <StyledInput
+          type="text"
+          value={upcValue}
+          onChange={setUpcValue}
+          placeholder="012345678905"
+        />
+      )}
+
+      <PrimaryButton onClick={handleImport} disabled={!canImport}>
+        Import
+      </PrimaryButton>
+
+      {result && !result.ok && (
+        <div className="food-import-error">{result.error}</div>
+      )}
+
+      {result && result.ok && (
+        <div className="food-import-confirm">
+          {result.missing.length > 0 && (
+            <div className="food-import-warning">
+              Check before saving — couldn't read {result.missing.map((key) => FIELD_LABELS[key]).join(', ')}
+            </div>
+          )}
+          <FoodForm key={importCount} initialValues={result.food} onSave={handleSave} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FoodImport;
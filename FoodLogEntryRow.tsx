@@ -0,0 +1,212 @@
+/**
+ * FoodLogEntryRow - One logged item with inline edit and delete
+ *
+ * TypeScript Concepts:
+ * - View/edit mode toggle
+ * - Different edit fields per entry kind
+ */
+
+import { useState } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+import StyledInput from '../ui/StyledInput';
+import PrimaryButton from '../ui/PrimaryButton';
+import { MEAL_TYPES, editEntry, rescaleEntry } from './foodLibrary';
+import type { MealEntry, MealType } from './foodLibrary';
+
+interface FoodLogEntryRowProps {
+  /** Logged entry */
+  entry: MealEntry;
+  /** Save handler for edits (omit for read-only) */
+  onUpdate?: (entry: MealEntry) => Promise<void>;
+  /** Delete handler (omit for read-only) */
+  onDelete?: (id: string) => Promise<void>;
+}
+
+/**
+ * Format an ISO timestamp as a short local time, e.g. "8:15 AM"
+ */
+function formatLoggedTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * FoodLogEntryRow - Entry name, macros and time; servings or grams when editing
+ */
+function FoodLogEntryRow({ entry, onUpdate, onDelete }: FoodLogEntryRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [meal, setMeal] = useState<MealType>(entry.meal);
+  const [servingsValue, setServingsValue] = useState(entry.servings.toString());
+  const [gramValues, setGramValues] = useState({
+    protein: entry.protein.toString(),
+    carbs: entry.carbs.toString(),
+    fat: entry.fat.toString(),
+  });
+
+  // Saved foods are edited by servings; quick adds by raw grams
+  const isFoodEntry = entry.foodId !== null;
+  const servings = parseFloat(servingsValue);
+  const grams = {
+    protein: parseFloat(gramValues.protein) || 0,
+    carbs: parseFloat(gramValues.carbs) || 0,
+    fat: parseFloat(gramValues.fat) || 0,
+  };
+  const isValid = isFoodEntry
+    ? !isNaN(servings) && servings > 0
+    : Object.values(grams).every((g) => g >= 0) && Object.values(grams).some((g) => g > 0);
+
+  const startEditing = () => {
+    setMeal(entry.meal);
+    setServingsValue(entry.servings.toString());
+    setGramValues({
+      protein: entry.protein.toString(),
+      carbs: entry.carbs.toString(),
+      fat: entry.fat.toString(),
+    });
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!onUpdate || !isValid) return;
+
+    const updated = isFoodEntry
+      ? { ...rescaleEntry(entry, servings), meal }
+      : editEntry(entry, { ...grams, meal });
+
+    setIsSaving(true);
+    try {
+      await onUpdate(updated);
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Failed to update entry:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete) return;
+
+    setIsSaving(true);
+    try {
+      await onDelete(entry.id);
+    } catch (error) {
+      console.error('Failed to delete entry:', error);
+      setIsSaving(false);
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="meal-log-entry">
+        <div className="meal-log-entry-main">
+          <div className="meal-log-entry-name">
+            {entry.foodName}
+            {entry.servings !== 1 && (
+              <span className="meal-log-entry-servings"> × {entry.servings}</span>
+            )}
+          </div>
+          <div className="meal-log-entry-macros">
+            P {entry.protein}g · C {entry.carbs}g · F {entry.fat}g
+          </div>
+          <div className="meal-log-entry-time">
+            {formatLoggedTime(entry.loggedAt)}
+            {entry.editedAt && ' · edited'}
+          </div>
+        </div>
+
+        {(onUpdate || onDelete) && (
+          <div className="meal-log-entry-actions">
+            {onUpdate && (
+              <button
+                type="button"
+                className="meal-log-entry-action"
+                onClick={startEditing}
+                aria-label={`Edit ${entry.foodName}`}
+              >
+                <Pencil size={16} />
+              </button>
+            )}
+            {onDelete && (
+              <button
+                type="button"
+                className="meal-log-entry-action"
+                onClick={handleDelete}
+                disabled={isSaving}
+                aria-label={`Delete ${entry.foodName}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="meal-log-entry meal-log-entry-editing">
+      <div className="meal-log-entry-name">{entry.foodName}</div>
+
+      <div className="meal-log-entry-edit-fields">
+        {isFoodEntry ? (
+          <div className="food-search-servings">
+            <StyledInput
+              type="number"
+              value={servingsValue}
+              onChange={setServingsValue}
+              width={80}
+              step="0.25"
+              min="0"
+            />
+            <span className="food-search-servings-unit">servings</span>
+          </div>
+        ) : (
+          (['protein', 'carbs', 'fat'] as const).map((macro) => (
+            <div key={macro} className="macro-input-field">
+              <StyledInput
+                type="number"
+                value={gramValues[macro]}
+                onChange={(val) => setGramValues((prev) => ({ ...prev, [macro]: val }))}
+                placeholder={macro.charAt(0).toUpperCase()}
+              />
+              <span className="macro-input-suffix">g</span>
+            </div>
+          ))
+        )}
+
+        <select
+          className="food-search-meal"
+          value={meal}
+          onChange={(e) => setMeal(e.target.value as MealType)}
+        >
+          {MEAL_TYPES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="meal-log-entry-edit-buttons">
+        <button
+          type="button"
+          className="food-search-clear"
+          onClick={() => setIsEditing(false)}
+          disabled={isSaving}
+        >
+          Cancel
+        </button>
+        <PrimaryButton
+          variant="small"
+          onClick={handleSave}
+          disabled={!isValid || isSaving}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </PrimaryButton>
+      </div>
+    </div>
+  );
+}
+
+export default FoodLogEntryRow;
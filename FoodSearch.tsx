@@ -0,0 +1,151 @@
+/**
+ * FoodSearch - Search saved foods and log one to a meal
+ *
+ * TypeScript Concepts:
+ * - Derived lists from props + local state
+ * - Async save operations
+ */
+
+import { useState } from 'react';
+import StyledInput from '../ui/StyledInput';
+import PrimaryButton from '../ui/PrimaryButton';
+import { calculateCalories } from '../../context/AppContext';
+import { MEAL_TYPES, getDefaultMeal, scaleFood, searchFoods } from './foodLibrary';
+import type { Food, MealType } from './foodLibrary';
+
+interface FoodSearchProps {
+  /** Saved foods */
+  foods: Food[];
+  /** Log handler: adds the food's macros to the day */
+  onLog: (food: Food, servings: number, meal: MealType) => Promise<void>;
+}
+
+/** Max results shown under the search box */
+const MAX_RESULTS = 8;
+
+/**
+ * FoodSearch - Food picker with serving multiplier and meal selector
+ */
+function FoodSearch({ foods, onLog }: FoodSearchProps) {
+  const [query, setQuery] = useState('');
+  const [selectedFood, setSelectedFood] = useState<Food | null>(null);
+  const [servingsValue, setServingsValue] = useState('1');
+  const [meal, setMeal] = useState<MealType>(getDefaultMeal());
+  const [isLogging, setIsLogging] = useState(false);
+
+  const results = searchFoods(foods, query).slice(0, MAX_RESULTS);
+  const servings = parseFloat(servingsValue);
+  const hasValidServings = !isNaN(servings) && servings > 0;
+  const preview = selectedFood && hasValidServings ? scaleFood(selectedFood, servings) : null;
+
+  const handleSelect = (food: Food) => {
+    setSelectedFood(food);
+    setServingsValue('1');
+  };
+
+  const handleLog = async () => {
+    if (!selectedFood || !hasValidServings) return;
+
+    setIsLogging(true);
+    try {
+      await onLog(selectedFood, servings, meal);
+      setSelectedFood(null);
+      setQuery('');
+    } catch (error) {
+      console.error('Failed to log food:', error);
+    } finally {
+      setIsLogging(false);
+    }
+  };
+
+  return (
+    <div className="food-search">
+      <StyledInput
+        type="text"
+        value={query}
+        onChange={setQuery}
+        placeholder="Search foods"
+      />
+
+      {/* Results */}
+      {!selectedFood && (
+        <div className="food-search-results">
+          {results.length === 0 ? (
+            <div className="food-search-empty">
+              {foods.length === 0 ? 'No saved foods yet' : 'No matches'}
+            </div>
+          ) : (
+            results.map((food) => (
+              <button
+                key={food.id}
+                type="button"
+                className="food-search-result"
+                onClick={() => handleSelect(food)}
+              >
+                <span className="food-search-result-name">{food.name}</span>
+                <span className="food-search-result-serving">{food.servingSize}</span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {/* Selected food: servings + meal */}
+      {selectedFood && (
+        <div className="food-search-selected">
+          <div className="food-search-selected-header">
+            <span className="food-search-selected-name">{selectedFood.name}</span>
+            <button
+              type="button"
+              className="food-search-clear"
+              onClick={() => setSelectedFood(null)}
+            >
+              Change
+            </button>
+          </div>
+
+          <div className="food-search-controls">
+            <div className="food-search-servings">
+              <StyledInput
+                type="number"
+                value={servingsValue}
+                onChange={setServingsValue}
+                width={80}
+                step="0.25"
+                min="0"
+              />
+              <span className="food-search-servings-unit">× {selectedFood.servingSize}</span>
+            </div>
+            <select
+              className="food-search-meal"
+              value={meal}
+              onChange={(e) => setMeal(e.target.value as MealType)}
+            >
+              {MEAL_TYPES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {preview && (
+            <div className="food-search-preview">
+              P {preview.protein}g · C {preview.carbs}g · F {preview.fat}g ·{' '}
+              {calculateCalories(preview.protein, preview.carbs, preview.fat)} kcal
+            </div>
+          )}
+
+          <PrimaryButton
+            onClick={handleLog}
+            disabled={!hasValidServings || isLogging}
+          >
+            {isLogging ? 'Logging...' : 'Log Food'}
+          </PrimaryButton>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FoodSearch;
@@ -0,0 +1,151 @@
+/**
+ * GoalCalculator - Suggest calorie and macro goals from profile data
+ *
+ * TypeScript Concepts:
+ * - Selects bound to union-typed values
+ * - Saving several goals in one action
+ */
+
+import { useState } from 'react';
+import PrimaryButton from '../ui/PrimaryButton';
+import {
+  ACTIVITY_LEVEL_OPTIONS,
+  GOAL_MODE_OPTIONS,
+  SEX_OPTIONS,
+  calculateGoals,
+  getMissingProfileFields,
+} from './bmrCalculator';
+import type { GoalMode, MacroGoals } from './bmrCalculator';
+import type { ActivityLevel, BiologicalSex, ProfileSettings } from './healthRecords';
+
+interface GoalCalculatorProps {
+  /** Profile values from ProfileField */
+  profile: ProfileSettings;
+  /** Save sex/activity level back to the profile */
+  onProfileChange: <K extends 'sex' | 'activityLevel'>(key: K, value: ProfileSettings[K]) => Promise<void>;
+  /** Save all four goals at once */
+  onApply: (goals: MacroGoals) => Promise<void>;
+}
+
+/**
+ * GoalCalculator - BMR-based targets with cut/maintain/bulk modes
+ */
+function GoalCalculator({ profile, onProfileChange, onApply }: GoalCalculatorProps) {
+  const [mode, setMode] = useState<GoalMode>('cut');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const missing = getMissingProfileFields(profile);
+  const result = calculateGoals(profile, mode);
+
+  const handleProfileChange = async <K extends 'sex' | 'activityLevel'>(key: K, value: ProfileSettings[K]) => {
+    try {
+      await onProfileChange(key, value);
+    } catch (error) {
+      console.error('Failed to save profile field:', error);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!result) return;
+
+    setIsApplying(true);
+    try {
+      await onApply({
+        calories: result.calories,
+        protein: result.protein,
+        carbs: result.carbs,
+        fat: result.fat,
+      });
+    } catch (error) {
+      console.error('Failed to apply goals:', error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="goal-calculator">
+      <div className="profile-field">
+        <label className="profile-field-label">Sex</label>
+        <select
+          className="data-import-select"
+          value={profile.sex ?? ''}
+          onChange={(e) => handleProfileChange('sex', e.target.value as BiologicalSex)}
+        >
+          <option value="" disabled>Select</option>
+          {SEX_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="profile-field">
+        <label className="profile-field-label">Activity Level</label>
+        <select
+          className="data-import-select"
+          value={profile.activityLevel ?? ''}
+          onChange={(e) => handleProfileChange('activityLevel', e.target.value as ActivityLevel)}
+        >
+          <option value="" disabled>Select</option>
+          {ACTIVITY_LEVEL_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Mode */}
+      <div className="cycle-toggle-buttons">
+        {GOAL_MODE_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            className={`cycle-toggle-button ${mode === option.value ? 'active' : ''}`}
+            onClick={() => setMode(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {!result ? (
+        <div className="goal-calculator-missing">
+          Add your {missing.join(', ')} to calculate goals
+        </div>
+      ) : (
+        <>
+          <div className="goal-calculator-results">
+            <div className="goal-calculator-row">
+              <span>BMR ({result.formula === 'katch-mcardle' ? 'Katch-McArdle' : 'Mifflin-St Jeor'})</span>
+              <span>{result.bmr.toLocaleString()} kcal</span>
+            </div>
+            <div className="goal-calculator-row">
+              <span>Maintenance</span>
+              <span>{result.maintenance.toLocaleString()} kcal</span>
+            </div>
+            <div className="goal-calculator-row goal-calculator-row--total">
+              <span>Calories</span>
+              <span>{result.calories.toLocaleString()} kcal</span>
+            </div>
+            <div className="goal-calculator-row">
+              <span>Protein / Carbs / Fat</span>
+              <span>{result.protein}g / {result.carbs}g / {result.fat}g</span>
+            </div>
+          </div>
+
+          <PrimaryButton
+            variant="small"
+            onClick={handleApply}
+            disabled={isApplying}
+          >
+            {isApplying ? 'Applying...' : 'Use These Goals'}
+          </PrimaryButton>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default GoalCalculator;
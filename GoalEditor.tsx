@@ -18,7 +18,7 @@ interface GoalEditorProps {
   value: number;
   /** Unit: "kcal", "g", "steps", "hours" */
   unit: string;
-  /** Save handler */
+  /** Save handler (resolves once the change is queued, see createQueuedSaves) */
   onSave: (value: number) => Promise<void>;
 }
 
@@ -0,0 +1,73 @@
+/**
+ * GoalHistoryTimeline - List of goal changes for the Overview page
+ *
+ * TypeScript Concepts:
+ * - Pairing each item with its predecessor
+ * - Empty state when nothing has changed yet
+ */
+
+import { parseDateKey } from './dateKeys';
+import { GOAL_HISTORY_START, describeGoalChanges } from './goalHistory';
+import type { GoalVersion } from './goalHistory';
+
+interface GoalHistoryTimelineProps {
+  /** Versions sorted oldest first */
+  history: GoalVersion[];
+}
+
+/**
+ * e.g. "Mar 14, 2024"
+ */
+function formatEffectiveDate(dateKey: string): string {
+  return parseDateKey(dateKey).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * GoalHistoryTimeline - Newest change first, with what changed
+ */
+function GoalHistoryTimeline({ history }: GoalHistoryTimelineProps) {
+  if (history.length < 2) {
+    return (
+      <div className="goal-history-empty">
+        Goal changes will appear here. Past days keep the goals that applied at the time.
+      </div>
+    );
+  }
+
+  const items = history
+    .map((version, index) => ({
+      version,
+      changes: describeGoalChanges(index > 0 ? history[index - 1] : null, version),
+    }))
+    .reverse();
+
+  return (
+    <ol className="goal-history">
+      {items.map(({ version, changes }) => (
+        <li key={version.effectiveFrom} className="goal-history-item">
+          <div className="goal-history-date">
+            {version.effectiveFrom === GOAL_HISTORY_START
+              ? 'Starting goals'
+              : formatEffectiveDate(version.effectiveFrom)}
+          </div>
+          {changes.length > 0 ? (
+            changes.map((change) => (
+              <div key={change} className="goal-history-change">{change}</div>
+            ))
+          ) : (
+            <div className="goal-history-change">
+              {version.goals.calories.toLocaleString()} kcal · {version.goals.protein}g protein ·{' '}
+              {version.goals.carbs}g carbs · {version.goals.fat}g fat
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default GoalHistoryTimeline;
@@ -0,0 +1,170 @@
+/**
+ * GoalScheduleEditor - Weekday, training-day and cycle-phase overrides for goals
+ *
+ * TypeScript Concepts:
+ * - Editing a nested object as a draft before saving
+ * - Empty input meaning "use the default"
+ */
+
+import { useState, useEffect } from 'react';
+import { Check } from 'lucide-react';
+import PrimaryButton from '../ui/PrimaryButton';
+import type { CyclePhase } from '../../context/AppContext';
+import {
+  SCHEDULED_GOAL_KEYS,
+  WEEKDAY_DISPLAY_ORDER,
+  WEEKDAY_NAMES,
+  setPhaseCalories,
+  setScheduleOverride,
+} from './goalSchedule';
+import type { GoalOverride, GoalSchedule, ScheduledGoalKey } from './goalSchedule';
+import { CYCLE_PHASE_LABELS, CYCLE_PHASE_NAMES } from './cycleTracking';
+import type { GoalSettings } from './healthRecords';
+
+interface GoalScheduleEditorProps {
+  /** Default goals from GoalEditor (shown as placeholders) */
+  goals: GoalSettings;
+  /** Saved schedule */
+  schedule: GoalSchedule;
+  /** Save handler for the whole schedule */
+  onSave: (schedule: GoalSchedule) => Promise<void>;
+  /** Show per-phase calorie adjustments (when the user tracks their cycle) */
+  showPhaseCalories?: boolean;
+}
+
+const COLUMN_LABELS: Record<ScheduledGoalKey, string> = {
+  calories: 'kcal',
+  protein: 'P',
+  carbs: 'C',
+  fat: 'F',
+};
+
+/**
+ * GoalScheduleEditor - One row per weekday plus a training-day row,
+ * and optional calorie adjustments per cycle phase
+ */
+function GoalScheduleEditor({ goals, schedule, onSave, showPhaseCalories = false }: GoalScheduleEditorProps) {
+  const [draft, setDraft] = useState<GoalSchedule>(schedule);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showSaved, setShowSaved] = useState(false);
+
+  // Sync draft when the saved schedule changes
+  useEffect(() => {
+    setDraft(schedule);
+  }, [schedule]);
+
+  // Auto-hide saved indicator after 2 seconds
+  useEffect(() => {
+    if (showSaved) {
+      const timer = setTimeout(() => {
+        setShowSaved(false);
+      }, 2000);
+      return () => clearTimeout(timer);
+    }
+  }, [showSaved]);
+
+  const hasChanged = JSON.stringify(draft) !== JSON.stringify(schedule);
+
+  const handleChange = (target: number | 'training', key: ScheduledGoalKey, text: string) => {
+    const parsed = parseFloat(text);
+    const value = text === '' || isNaN(parsed) || parsed <= 0 ? null : parsed;
+    setDraft((prev) => setScheduleOverride(prev, target, key, value));
+  };
+
+  // Adjustments can be negative; blank or 0 means none
+  const handlePhaseChange = (phase: CyclePhase, text: string) => {
+    const parsed = parseInt(text, 10);
+    setDraft((prev) => setPhaseCalories(prev, phase, isNaN(parsed) ? null : parsed));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      setShowSaved(true);
+    } catch (error) {
+      console.error('Failed to save goal schedule:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderRow = (label: string, target: number | 'training', override: GoalOverride) => (
+    <div key={target} className="goal-schedule-row">
+      <span className="goal-schedule-day">{label}</span>
+      {SCHEDULED_GOAL_KEYS.map((key) => (
+        <input
+          key={key}
+          type="number"
+          className="goal-schedule-input"
+          value={override[key] ?? ''}
+          placeholder={goals[key].toString()}
+          onChange={(e) => handleChange(target, key, e.target.value)}
+          disabled={isSaving}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="goal-schedule">
+      <div className="goal-editor-header">
+        <span className="goal-editor-label">Goal Schedule</span>
+        {showSaved && (
+          <span className="goal-editor-saved">
+            <Check size={18} strokeWidth={3} />
+            Saved
+          </span>
+        )}
+      </div>
+      <p className="goal-schedule-hint">
+        Leave blank to use your default goal. Training-day values apply on days you mark as training.
+      </p>
+
+      <div className="goal-schedule-row goal-schedule-row--header">
+        <span className="goal-schedule-day" />
+        {SCHEDULED_GOAL_KEYS.map((key) => (
+          <span key={key} className="goal-schedule-column">{COLUMN_LABELS[key]}</span>
+        ))}
+      </div>
+
+      {WEEKDAY_DISPLAY_ORDER.map((weekday) =>
+        renderRow(WEEKDAY_NAMES[weekday].slice(0, 3), weekday, draft.weekdays[weekday])
+      )}
+      {renderRow('Training', 'training', draft.trainingDay)}
+
+      {showPhaseCalories && (
+        <>
+          <p className="goal-schedule-hint">
+            Cycle phase calorie adjustment, added to the goal above (e.g. +150 in your luteal phase).
+          </p>
+          {CYCLE_PHASE_NAMES.map((phase) => (
+            <div key={phase} className="goal-schedule-row">
+              <span className="goal-schedule-day">{CYCLE_PHASE_LABELS[phase]}</span>
+              <input
+                type="number"
+                className="goal-schedule-input"
+                value={draft.phaseCalories[phase] ?? ''}
+                placeholder="0"
+                step="50"
+                onChange={(e) => handlePhaseChange(phase, e.target.value)}
+                disabled={isSaving}
+              />
+              <span className="goal-schedule-column">kcal</span>
+            </div>
+          ))}
+        </>
+      )}
+
+      <PrimaryButton
+        variant="small"
+        onClick={handleSave}
+        disabled={!hasChanged || isSaving}
+      >
+        {isSaving ? 'Saving...' : 'Save Schedule'}
+      </PrimaryButton>
+    </div>
+  );
+}
+
+export default GoalScheduleEditor;
@@ -0,0 +1,94 @@
+/**
+ * HealthFileSync - Sync steps, weight and sleep from an exported file
+ *
+ * Reads a Health Connect, Google Fit or Fitbit JSON export through the
+ * file provider. Manual entries are kept; synced values are updated.
+ *
+ * TypeScript Concepts:
+ * - File reading with async/await
+ * - Passing an interface implementation to a callback
+ */
+
+import { useState } from 'react';
+import { createFileProvider, formatSyncedAgo, HEALTH_PROVIDER_LABELS } from './healthProviders';
+import type { HealthDataProvider, SyncStatus } from './healthProviders';
+
+interface HealthFileSyncProps {
+  /** Status of the last sync */
+  status: SyncStatus;
+  /** Provider used for the last sync */
+  providerLabel: string | null;
+  /** ISO timestamp of the last successful sync */
+  lastSyncedAt: string | null;
+  /** Error from the last sync */
+  error: string | null;
+  /** Sync from a provider; resolves to the number of days changed */
+  onSync: (provider: HealthDataProvider) => Promise<number>;
+}
+
+/** Services whose exports can be read */
+const SUPPORTED_SOURCES = [
+  HEALTH_PROVIDER_LABELS['health-connect'],
+  HEALTH_PROVIDER_LABELS['google-fit'],
+  HEALTH_PROVIDER_LABELS.fitbit,
+].join(', ');
+
+/**
+ * HealthFileSync - File picker and sync status
+ */
+function HealthFileSync({ status, providerLabel, lastSyncedAt, error, onSync }: HealthFileSyncProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setResultMessage(null);
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.error('Failed to read health export:', error);
+      setResultMessage(`Couldn't read ${file.name}. Try choosing it again.`);
+      return;
+    }
+
+    const provider = createFileProvider(text);
+    if (!provider) {
+      setResultMessage(`Not a recognized export. Supported: ${SUPPORTED_SOURCES}.`);
+      return;
+    }
+
+    const changedCount = await onSync(provider);
+    setResultMessage(`Updated ${changedCount} day${changedCount === 1 ? '' : 's'} from ${provider.label}`);
+  };
+
+  return (
+    <div className="data-import">
+      <label className="data-import-file">
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          disabled={status === 'syncing'}
+        />
+        <span>{fileName ?? 'Choose an exported JSON file'}</span>
+      </label>
+
+      <div className="health-sync-status">
+        {status === 'syncing' && `Syncing from ${providerLabel}…`}
+        {status === 'error' && `Sync failed: ${error}`}
+        {status !== 'syncing' && status !== 'error' && (
+          lastSyncedAt
+            ? `Last synced ${formatSyncedAgo(lastSyncedAt)}${providerLabel ? ` from ${providerLabel}` : ''}`
+            : 'Not synced yet'
+        )}
+      </div>
+
+      {resultMessage && status !== 'error' && <div className="data-import-result">{resultMessage}</div>}
+    </div>
+  );
+}
+
+export default HealthFileSync;
@@ -0,0 +1,94 @@
+/**
+ * InsightsList - Plain-language findings from the user's history
+ *
+ * TypeScript Concepts:
+ * - Narrowing a discriminated union in JSX
+ * - Memoizing a computation over all days
+ */
+
+import { useMemo, useState } from 'react';
+import { TrendingUp, TrendingDown, CalendarDays } from 'lucide-react';
+import { MIN_INSIGHT_SAMPLES, buildInsightReport } from './insights';
+import type { Insight, PendingInsight } from './insights';
+import type { CycleSettings, DayRecord } from './healthRecords';
+
+interface InsightsListProps {
+  /** All logged days */
+  days: DayRecord[];
+  /** Cycle settings (null if not tracking) */
+  cycleSettings: CycleSettings | null;
+}
+
+/**
+ * Icon for a finding
+ */
+function InsightIcon({ insight }: { insight: Insight }) {
+  if (insight.kind === 'phase') return <CalendarDays size={18} />;
+  return insight.correlation > 0 ? <TrendingUp size={18} /> : <TrendingDown size={18} />;
+}
+
+/**
+ * Why a pair has no finding yet
+ */
+function describePending(item: PendingInsight): string {
+  if (item.reason === 'not-enough-data') {
+    return `${item.sampleSize} of ${MIN_INSIGHT_SAMPLES} days needed`;
+  }
+  return `No clear pattern in ${item.sampleSize} days`;
+}
+
+/**
+ * InsightsList - Findings first, then pairs still collecting data
+ */
+function InsightsList({ days, cycleSettings }: InsightsListProps) {
+  const [showPending, setShowPending] = useState(false);
+  const report = useMemo(() => buildInsightReport(days, cycleSettings), [days, cycleSettings]);
+
+  return (
+    <div className="insights">
+      {report.insights.length === 0 ? (
+        <div className="insights-empty">
+          No patterns yet. Keep logging sleep and ratings; insights need at least {MIN_INSIGHT_SAMPLES} days.
+        </div>
+      ) : (
+        report.insights.map((insight) => (
+          <div key={insight.id} className="insight-card">
+            <div className="insight-card-header">
+              <InsightIcon insight={insight} />
+              <span className="insight-card-title">{insight.title}</span>
+            </div>
+            <div className="insight-card-summary">{insight.summary}</div>
+          </div>
+        ))
+      )}
+
+      <p className="insights-note">
+        These are patterns, not proof of cause. Only findings unlikely to be chance are shown.
+      </p>
+
+      {report.pending.length > 0 && (
+        <>
+          <button
+            type="button"
+            className="insights-pending-toggle"
+            onClick={() => setShowPending((prev) => !prev)}
+          >
+            {showPending ? 'Hide' : 'Show'} {report.pending.length} without a finding
+          </button>
+          {showPending && (
+            <ul className="insights-pending">
+              {report.pending.map((item) => (
+                <li key={item.id} className="insights-pending-item">
+                  <span>{item.title}</span>
+                  <span className="insights-pending-reason">{describePending(item)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default InsightsList;
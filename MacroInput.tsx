@@ -15,9 +15,9 @@ interface MacroInputProps {
   label: string;
   /** Current total for the day */
   total: number;
-  /** Daily goal */
+  /** Goal for this date (from the goal schedule) */
   goal: number;
-  /** Callback when user adds grams */
+  /** Callback when user adds grams (stored as a quick-add log entry) */
   onAdd: (grams: number) => void;
 }
 
@@ -29,16 +29,16 @@ interface MacroInputProps {
  *   label="Protein" 
  *   total={85} 
  *   goal={120} 
- *   onAdd={(g) => addMacro('protein', g)} 
+ *   onAdd={(g) => addEntry(createQuickEntry('protein', g))} 
  * />
  */
 function MacroInput({ label, total, goal, onAdd }: MacroInputProps) {
   // Local state for the input value
   const [inputValue, setInputValue] = useState('');
   
-  // Check if we have a valid number to add (allow negative for corrections)
+  // Check if we have a valid number to add (corrections are made by editing entries)
   const parsedValue = parseFloat(inputValue);
-  const hasValidInput = !isNaN(parsedValue) && parsedValue !== 0;
+  const hasValidInput = !isNaN(parsedValue) && parsedValue > 0;
   
   // Handle add button click
   const handleAdd = () => {
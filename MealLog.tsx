@@ -0,0 +1,67 @@
+/**
+ * MealLog - Foods eaten today, grouped by meal, with edit/delete
+ *
+ * TypeScript Concepts:
+ * - Record iteration with typed keys
+ * - Empty state handling
+ */
+
+import { calculateCalories } from '../../context/AppContext';
+import { MEAL_TYPES, groupByMeal, sumMacros } from './foodLibrary';
+import type { MealEntry } from './foodLibrary';
+import FoodLogEntryRow from './FoodLogEntryRow';
+
+interface MealLogProps {
+  /** Today's logged foods */
+  entries: MealEntry[];
+  /** Entry edit handler */
+  onUpdate?: (entry: MealEntry) => Promise<void>;
+  /** Entry delete handler */
+  onDelete?: (id: string) => Promise<void>;
+}
+
+/**
+ * MealLog - Breakfast/lunch/dinner/snack lists with per-meal calories
+ */
+function MealLog({ entries, onUpdate, onDelete }: MealLogProps) {
+  if (entries.length === 0) {
+    return (
+      <div className="meal-log-empty">
+        No foods logged yet today
+      </div>
+    );
+  }
+
+  const groups = groupByMeal(entries);
+
+  return (
+    <div className="meal-log">
+      {MEAL_TYPES.filter(({ value }) => groups[value].length > 0).map(({ value, label }) => {
+        const mealEntries = groups[value];
+        const totals = sumMacros(mealEntries);
+
+        return (
+          <div key={value} className="meal-log-group">
+            <div className="meal-log-group-header">
+              <span className="meal-log-group-title">{label}</span>
+              <span className="meal-log-group-calories">
+                {calculateCalories(totals.protein, totals.carbs, totals.fat).toLocaleString()} kcal
+              </span>
+            </div>
+
+            {mealEntries.map((entry) => (
+              <FoodLogEntryRow
+                key={entry.id}
+                entry={entry}
+                onUpdate={onUpdate}
+                onDelete={onDelete}
+              />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default MealLog;
@@ -0,0 +1,199 @@
+/**
+ * MeasurementChart - Tape measurements, body fat and lean/fat mass over time
+ *
+ * TypeScript Concepts:
+ * - Union of measurement sites and derived series for a picker
+ * - Converting stored units once before charting
+ */
+
+import { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
+import { MEASUREMENT_SITE_OPTIONS, buildCompositionSeries } from './bodyMeasurements';
+import type { CompositionMetric, MeasurementEntry, MeasurementSite } from './bodyMeasurements';
+import { filterByRange, formatAxisLabel, getSpanDays } from './chartRange';
+import type { ChartRange, CustomDateRange } from './chartRange';
+import type { DayRecord, ProfileSettings } from './healthRecords';
+import { LENGTH_UNITS, WEIGHT_UNITS, toDisplayLength, toDisplayWeight } from './units';
+
+interface MeasurementChartProps {
+  /** All measurement entries */
+  measurements: MeasurementEntry[];
+  /** All logged days (weights for lean/fat mass) */
+  days: DayRecord[];
+  /** Sex, height and unit preference */
+  profile: ProfileSettings;
+  /** Time range filter (from ChartRangeSelector) */
+  range: ChartRange;
+  /** Start/end dates when range is "custom" */
+  customRange?: CustomDateRange | null;
+  /** Loading state */
+  isLoading?: boolean;
+}
+
+/** 'composition' shows lean and fat mass together */
+type MeasurementView = MeasurementSite | 'bodyFat' | 'composition';
+
+const VIEW_OPTIONS: { value: MeasurementView; label: string }[] = [
+  ...MEASUREMENT_SITE_OPTIONS,
+  { value: 'bodyFat', label: 'Body fat %' },
+  { value: 'composition', label: 'Lean / fat mass' },
+];
+
+const COMPOSITION_LINES: { key: CompositionMetric; label: string; color: string }[] = [
+  { key: 'leanMass', label: 'Lean mass', color: 'var(--color-chart-fat)' },
+  { key: 'fatMass', label: 'Fat mass', color: 'var(--color-chart-protein)' },
+];
+
+/**
+ * MeasurementChart - Series picker and line chart
+ */
+function MeasurementChart({
+  measurements,
+  days,
+  profile,
+  range,
+  customRange = null,
+  isLoading = false,
+}: MeasurementChartProps) {
+  const [view, setView] = useState<MeasurementView>('waist');
+
+  if (isLoading) {
+    return (
+      <div className="metric-chart">
+        <div className="weight-chart-skeleton">
+          <div className="skeleton skeleton--bar" style={{ height: '200px' }} />
+        </div>
+      </div>
+    );
+  }
+
+  const unitSystem = profile.unitSystem;
+  const isComposition = view === 'composition';
+  const keys: string[] = isComposition ? COMPOSITION_LINES.map(line => line.key) : [view];
+  const unit = isComposition ? WEIGHT_UNITS[unitSystem] : view === 'bodyFat' ? '%' : LENGTH_UNITS[unitSystem];
+
+  // Convert to the user's units, keeping only sessions with this series
+  const points = filterByRange(buildCompositionSeries(measurements, days, profile), range, customRange)
+    .map(point => {
+      const converted = { ...point };
+      keys.forEach(key => {
+        const value = point[key];
+        if (typeof value !== 'number') return;
+        if (isComposition) converted[key] = toDisplayWeight(value, unitSystem);
+        else if (view !== 'bodyFat') converted[key] = toDisplayLength(value, unitSystem);
+      });
+      return converted;
+    })
+    .filter(point => keys.some(key => point[key] !== null));
+
+  const spanDays = getSpanDays(points);
+  const chartData = points.map((point, index) => ({ ...point, index }));
+
+  // Custom tooltip
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (!active || !payload || !payload.length) return null;
+    const point = payload[0].payload;
+    return (
+      <div className="weight-chart-tooltip">
+        <div className="weight-chart-tooltip-label">{point.date}</div>
+        {keys.map((key) => (
+          <div key={key} className="metric-chart-tooltip-row">
+            {isComposition && `${COMPOSITION_LINES.find(line => line.key === key)?.label}: `}
+            {typeof point[key] === 'number' ? `${point[key].toFixed(1)} ${unit}` : '—'}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="metric-chart">
+      <div className="metric-chart-controls">
+        <select
+          className="metric-chart-select"
+          value={view}
+          onChange={(e) => setView(e.target.value as MeasurementView)}
+        >
+          {VIEW_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {points.length < 2 ? (
+        <div className="weight-chart-empty">
+          {isComposition
+            ? 'Log body fat (or waist and neck) with a weigh-in twice to see lean and fat mass'
+            : 'Log this measurement twice to see a chart'}
+        </div>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={chartData} margin={{ left: 40, right: 20, top: 10, bottom: 30 }}>
+              <XAxis
+                dataKey="index"
+                tickFormatter={(index) => {
+                  // Show 3 labels: first, middle, last
+                  const middle = Math.floor(points.length / 2);
+                  if (index === 0 || index === middle || index === points.length - 1) {
+                    return formatAxisLabel(points[index], spanDays);
+                  }
+                  return '';
+                }}
+                tick={{ fontSize: 12, fill: 'var(--color-text-tertiary)' }}
+                axisLine={false}
+                tickLine={false}
+              />
+
+              <YAxis
+                domain={['auto', 'auto']}
+                tick={{ fontSize: 12, fill: 'var(--color-text-tertiary)' }}
+                axisLine={false}
+                tickLine={false}
+                width={40}
+              />
+
+              <Tooltip content={<CustomTooltip />} />
+
+              {isComposition ? (
+                COMPOSITION_LINES.map((line) => (
+                  <Line
+                    key={line.key}
+                    type="monotone"
+                    dataKey={line.key}
+                    stroke={line.color}
+                    strokeWidth={3}
+                    dot={{ r: 3, fill: line.color, strokeWidth: 0 }}
+                    connectNulls
+                  />
+                ))
+              ) : (
+                <Line
+                  type="monotone"
+                  dataKey={view}
+                  stroke="var(--color-accent)"
+                  strokeWidth={3}
+                  dot={{ r: 3, fill: 'var(--color-accent)', strokeWidth: 0 }}
+                  connectNulls
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+
+          {isComposition && (
+            <div className="metric-chart-legend">
+              {COMPOSITION_LINES.map((line) => (
+                <span key={line.key} className="metric-chart-legend-item">
+                  <span className="metric-chart-legend-swatch" style={{ background: line.color }} />
+                  {line.label}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default MeasurementChart;
@@ -0,0 +1,211 @@
+/**
+ * MeasurementLog - Periodic tape measurements and body-fat entries
+ *
+ * Sites are typed in the user's unit and stored in inches. Body fat can
+ * be typed in, or left blank to use the Navy estimate from waist, neck
+ * (and hips) once the profile has sex and height.
+ *
+ * TypeScript Concepts:
+ * - Record of string drafts keyed by a union
+ * - Omit<> for entries before the id is assigned
+ */
+
+import { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import StyledInput from '../ui/StyledInput';
+import PrimaryButton from '../ui/PrimaryButton';
+import {
+  MEASUREMENT_SITE_OPTIONS,
+  calculateBodyComposition,
+  createMeasurement,
+  estimateNavyBodyFat,
+  getBodyFat,
+  getWeightNear,
+  sortMeasurements,
+} from './bodyMeasurements';
+import type { MeasurementEntry, MeasurementSite } from './bodyMeasurements';
+import type { DayRecord, ProfileSettings } from './healthRecords';
+import { LENGTH_UNITS, formatWeight, fromDisplayLength, toDisplayLength, toTotalInches } from './units';
+
+interface MeasurementLogProps {
+  /** All measurement entries */
+  measurements: MeasurementEntry[];
+  /** All logged days (weights for lean/fat mass) */
+  days: DayRecord[];
+  /** Sex, height and unit preference */
+  profile: ProfileSettings;
+  /** Default date for a new entry ("YYYY-MM-DD") */
+  today: string;
+  /** Save a new entry */
+  onAdd: (measurement: Omit<MeasurementEntry, 'id'>) => Promise<void>;
+  /** Delete an entry */
+  onDelete: (id: string) => Promise<void>;
+}
+
+/** Entries shown in the list */
+const RECENT_COUNT = 5;
+
+type SiteDrafts = Partial<Record<MeasurementSite, string>>;
+
+/**
+ * MeasurementLog - Add form with Navy estimate, latest composition and recent entries
+ */
+function MeasurementLog({ measurements, days, profile, today, onAdd, onDelete }: MeasurementLogProps) {
+  const [date, setDate] = useState(today);
+  const [siteDrafts, setSiteDrafts] = useState<SiteDrafts>({});
+  const [bodyFatValue, setBodyFatValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const unitSystem = profile.unitSystem;
+  const lengthUnit = LENGTH_UNITS[unitSystem];
+
+  // Drafts -> inches, skipping blank or invalid sites
+  const sites: Partial<Record<MeasurementSite, number>> = {};
+  MEASUREMENT_SITE_OPTIONS.forEach(({ value }) => {
+    const parsed = parseFloat(siteDrafts[value] ?? '');
+    if (!isNaN(parsed) && parsed > 0) sites[value] = fromDisplayLength(parsed, unitSystem);
+  });
+
+  const typedBodyFat = parseFloat(bodyFatValue);
+  const hasBodyFat = !isNaN(typedBodyFat) && typedBodyFat > 0 && typedBodyFat < 100;
+  const navyEstimate = profile.sex && profile.height
+    ? estimateNavyBodyFat(profile.sex, toTotalInches(profile.height), sites)
+    : null;
+  const isValid = !!date && (Object.keys(sites).length > 0 || hasBodyFat);
+
+  const recent = sortMeasurements(measurements).slice(0, RECENT_COUNT);
+  const latest = recent[0] ?? null;
+  const latestBodyFat = latest ? getBodyFat(latest, profile) : null;
+  const latestWeight = latest ? getWeightNear(days, latest.date) : null;
+  const latestComposition = latestBodyFat && latestWeight !== null
+    ? calculateBodyComposition(latestWeight, latestBodyFat.percent)
+    : null;
+
+  const formatLength = (inches: number) => `${toDisplayLength(inches, unitSystem).toFixed(1)} ${lengthUnit}`;
+
+  const handleAdd = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      await onAdd(createMeasurement(date, sites, hasBodyFat ? typedBodyFat : null));
+      setSiteDrafts({});
+      setBodyFatValue('');
+    } catch (error) {
+      console.error('Failed to add measurement:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await onDelete(id);
+    } catch (error) {
+      console.error('Failed to delete measurement:', error);
+    }
+  };
+
+  return (
+    <div className="measurement-log">
+      {latestComposition && latestBodyFat && (
+        <div className="measurement-log-composition">
+          <div className="quick-stat-label">Body Composition</div>
+          <div className="measurement-log-composition-values">
+            <span>Lean {formatWeight(latestComposition.leanMass, unitSystem)}</span>
+            <span>Fat {formatWeight(latestComposition.fatMass, unitSystem)}</span>
+            <span>{latestBodyFat.percent}%{latestBodyFat.source === 'navy' && ' (Navy est.)'}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="workout-log-form">
+        <input
+          type="date"
+          className="chart-range-date"
+          value={date}
+          max={today}
+          onChange={(e) => setDate(e.target.value)}
+          aria-label="Measurement date"
+        />
+
+        <div className="measurement-log-sites">
+          {MEASUREMENT_SITE_OPTIONS.map((option) => (
+            <div key={option.value} className="measurement-log-site">
+              <span className="body-input-label-hint">{option.label}</span>
+              <div className="body-input-field">
+                <StyledInput
+                  type="number"
+                  value={siteDrafts[option.value] ?? ''}
+                  onChange={(value) => setSiteDrafts((prev) => ({ ...prev, [option.value]: value }))}
+                  placeholder="—"
+                  width={80}
+                  step="0.1"
+                  min="0"
+                />
+                <span className="body-input-unit">{lengthUnit}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="measurement-log-site">
+          <span className="body-input-label-hint">Body fat</span>
+          <div className="body-input-field">
+            <StyledInput
+              type="number"
+              value={bodyFatValue}
+              onChange={setBodyFatValue}
+              placeholder={navyEstimate !== null ? navyEstimate.toString() : '—'}
+              width={80}
+              step="0.1"
+              min="0"
+              max="100"
+            />
+            <span className="body-input-unit">%</span>
+          </div>
+        </div>
+        <div className="body-input-label-hint">
+          {navyEstimate !== null
+            ? `Navy estimate ${navyEstimate}% — leave blank to use it`
+            : profile.sex && profile.height
+              ? `Add waist and neck${profile.sex === 'female' ? ' and hips' : ''} for a Navy estimate`
+              : 'Set sex and height in your profile for a Navy estimate'}
+        </div>
+
+        <PrimaryButton variant="small" onClick={handleAdd} disabled={!isValid || isSaving}>
+          {isSaving ? 'Saving...' : 'Add Measurements'}
+        </PrimaryButton>
+      </div>
+
+      {recent.map((entry) => {
+        const bodyFat = getBodyFat(entry, profile);
+        const details = MEASUREMENT_SITE_OPTIONS
+          .filter(({ value }) => entry.sites[value] !== undefined)
+          .map(({ value, label }) => `${label} ${formatLength(entry.sites[value] as number)}`);
+        if (bodyFat) details.push(`${bodyFat.percent}% fat${bodyFat.source === 'navy' ? ' (Navy)' : ''}`);
+
+        return (
+          <div key={entry.id} className="meal-log-entry">
+            <div className="meal-log-entry-main">
+              <div className="meal-log-entry-name">{entry.date}</div>
+              <div className="meal-log-entry-macros">{details.join(' · ')}</div>
+            </div>
+            <div className="meal-log-entry-actions">
+              <button
+                type="button"
+                className="meal-log-entry-action"
+                onClick={() => handleDelete(entry.id)}
+                aria-label={`Delete measurements from ${entry.date}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default MeasurementLog;
@@ -0,0 +1,291 @@
+/**
+ * MetricChart - Trend chart for any daily metric, with goal lines,
+ * stacked macro calories and an optional second metric on a right axis
+ *
+ * TypeScript Concepts:
+ * - Config-driven rendering from a lookup table
+ * - Optional second series with its own axis
+ */
+
+import { useState } from 'react';
+import { Bar, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { formatAxisLabel, getSpanDays } from './chartRange';
+import type { ChartRange, CustomDateRange } from './chartRange';
+import {
+  CHART_METRIC_OPTIONS,
+  MACRO_CALORIE_KEYS,
+  buildMetricSeries,
+  getGoalKey,
+  getMetricConfig,
+} from './metricSeries';
+import type { ChartMetric, ChartMetricConfig, MetricPoint } from './metricSeries';
+import type { GoalValues, GoalVersion } from './goalHistory';
+import type { PhaseLookup } from './cycleTracking';
+import type { DayRecord } from './healthRecords';
+import type { UnitSystem } from './units';
+
+interface MetricChartProps {
+  /** All logged days */
+  data: DayRecord[];
+  /** Time range filter (from ChartRangeSelector) */
+  days: ChartRange;
+  /** Start/end dates when days is "custom" */
+  customRange?: CustomDateRange | null;
+  /** Goal versions, so goal lines follow past goals */
+  goalHistory: GoalVersion[];
+  /** Current goals and schedule */
+  currentGoals: GoalValues;
+  /** Unit for weight */
+  unitSystem?: UnitSystem;
+  /** Cycle phase per date, so calorie goal lines include phase adjustments */
+  phaseOf?: PhaseLookup | null;
+  /** Loading state */
+  isLoading?: boolean;
+}
+
+type ChartView = 'metric' | 'macros';
+
+/**
+ * Value with its unit, e.g. "1,850 kcal" or "3.5/5"
+ */
+function formatValue(value: number, config: ChartMetricConfig): string {
+  const rounded = value.toLocaleString(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: config.decimals,
+  });
+  return config.unit.startsWith('/') ? `${rounded}${config.unit}` : `${rounded} ${config.unit}`;
+}
+
+/**
+ * MetricChart - Metric picker, overlay picker and chart
+ */
+function MetricChart({
+  data,
+  days,
+  customRange = null,
+  goalHistory,
+  currentGoals,
+  unitSystem = 'imperial',
+  phaseOf = null,
+  isLoading = false,
+}: MetricChartProps) {
+  const [view, setView] = useState<ChartView>('metric');
+  const [metric, setMetric] = useState<ChartMetric>('calories');
+  const [overlay, setOverlay] = useState<ChartMetric | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="metric-chart">
+        <div className="weight-chart-skeleton">
+          <div className="skeleton skeleton--bar" style={{ height: '200px' }} />
+        </div>
+      </div>
+    );
+  }
+
+  const isMacros = view === 'macros';
+  const metrics: ChartMetric[] = isMacros ? ['calories'] : overlay ? [metric, overlay] : [metric];
+  const { points, isWeekly } = buildMetricSeries(
+    data,
+    metrics,
+    days,
+    customRange,
+    goalHistory,
+    currentGoals,
+    unitSystem,
+    isMacros,
+    phaseOf
+  );
+  const spanDays = getSpanDays(points);
+
+  // Picking the overlay metric as the main one drops the overlay
+  const handleMetricChange = (next: ChartMetric) => {
+    setMetric(next);
+    if (next === overlay) setOverlay(null);
+  };
+  const primary = getMetricConfig(isMacros ? 'calories' : metric, unitSystem);
+  const secondary = overlay && !isMacros ? getMetricConfig(overlay, unitSystem) : null;
+
+  const chartData = points.map((point, index) => ({ ...point, index }));
+
+  // Custom tooltip
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (!active || !payload || !payload.length) return null;
+    const point: MetricPoint = payload[0].payload;
+    const rows = isMacros
+      ? MACRO_CALORIE_KEYS.map((entry) => ({ label: entry.label, value: point[entry.key], config: primary }))
+      : metrics.map((key) => {
+          const config = getMetricConfig(key, unitSystem);
+          return { label: config.label, value: point[key], config };
+        });
+    const goal = point[getGoalKey(isMacros ? 'calories' : metric)];
+
+    return (
+      <div className="weight-chart-tooltip">
+        <div className="weight-chart-tooltip-label">
+          {isWeekly ? `Week of ${point.date}` : point.date}
+        </div>
+        {rows.map((row) => (
+          <div key={row.label} className="metric-chart-tooltip-row">
+            {row.label}: {typeof row.value === 'number' ? formatValue(row.value, row.config) : '—'}
+          </div>
+        ))}
+        {typeof goal === 'number' && (
+          <div className="weight-chart-tooltip-trend">Goal {formatValue(goal, primary)}</div>
+        )}
+      </div>
+    );
+  };
+
+  const renderSeries = (key: ChartMetric, config: ChartMetricConfig, axisId: 'left' | 'right') =>
+    config.chartType === 'bar' && axisId === 'left' ? (
+      <Bar key={key} yAxisId={axisId} dataKey={key} fill={config.color} radius={[4, 4, 0, 0]} maxBarSize={24} />
+    ) : (
+      <Line
+        key={key}
+        yAxisId={axisId}
+        type="monotone"
+        dataKey={key}
+        stroke={config.color}
+        strokeWidth={2}
+        dot={{ r: 2, strokeWidth: 0, fill: config.color }}
+        connectNulls
+      />
+    );
+
+  return (
+    <div className="metric-chart">
+      <div className="metric-chart-controls">
+        <div className="cycle-toggle-buttons">
+          <button
+            className={`cycle-toggle-button ${!isMacros ? 'active' : ''}`}
+            onClick={() => setView('metric')}
+          >
+            Metric
+          </button>
+          <button
+            className={`cycle-toggle-button ${isMacros ? 'active' : ''}`}
+            onClick={() => setView('macros')}
+          >
+            Macros
+          </button>
+        </div>
+
+        {!isMacros && (
+          <div className="metric-chart-selects">
+            <select
+              className="metric-chart-select"
+              value={metric}
+              onChange={(e) => handleMetricChange(e.target.value as ChartMetric)}
+            >
+              {CHART_METRIC_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              className="metric-chart-select"
+              value={overlay ?? ''}
+              onChange={(e) => setOverlay(e.target.value ? (e.target.value as ChartMetric) : null)}
+            >
+              <option value="">No overlay</option>
+              {CHART_METRIC_OPTIONS.filter((option) => option.value !== metric).map((option) => (
+                <option key={option.value} value={option.value}>vs {option.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {points.length < 2 ? (
+        <div className="weight-chart-empty">
+          Log {primary.label.toLowerCase()} for 2+ days to see a chart
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={240}>
+          <ComposedChart data={chartData} margin={{ left: 0, right: secondary ? 0 : 20, top: 10, bottom: 30 }}>
+            <XAxis
+              dataKey="index"
+              tickFormatter={(index) => {
+                // Show 3 labels: first, middle, last
+                const middle = Math.floor(points.length / 2);
+                if (index === 0 || index === middle || index === points.length - 1) {
+                  return formatAxisLabel(points[index], spanDays);
+                }
+                return '';
+              }}
+              tick={{ fontSize: 12, fill: 'var(--color-text-tertiary)' }}
+              axisLine={false}
+              tickLine={false}
+            />
+
+            <YAxis
+              yAxisId="left"
+              domain={primary.domain ?? [primary.chartType === 'bar' ? 0 : 'auto', 'auto']}
+              tick={{ fontSize: 12, fill: 'var(--color-text-tertiary)' }}
+              axisLine={false}
+              tickLine={false}
+              width={44}
+            />
+
+            {secondary && (
+              <YAxis
+                yAxisId="right"
+                orientation="right"
+                domain={secondary.domain ?? ['auto', 'auto']}
+                tick={{ fontSize: 12, fill: secondary.color }}
+                axisLine={false}
+                tickLine={false}
+                width={44}
+              />
+            )}
+
+            <Tooltip content={<CustomTooltip />} />
+
+            {isMacros
+              ? MACRO_CALORIE_KEYS.map((entry, index) => (
+                  <Bar
+                    key={entry.key}
+                    yAxisId="left"
+                    dataKey={entry.key}
+                    stackId="macros"
+                    fill={entry.color}
+                    maxBarSize={24}
+                    radius={index === MACRO_CALORIE_KEYS.length - 1 ? [4, 4, 0, 0] : undefined}
+                  />
+                ))
+              : renderSeries(metric, primary, 'left')}
+
+            {secondary && overlay && renderSeries(overlay, secondary, 'right')}
+
+            {/* Goal in force on each day (steps when the goal changed) */}
+            {primary.goalKey && (
+              <Line
+                yAxisId="left"
+                type="stepAfter"
+                dataKey={getGoalKey(isMacros ? 'calories' : metric)}
+                stroke="var(--color-text-tertiary)"
+                strokeDasharray="4 4"
+                strokeWidth={1.5}
+                dot={false}
+                activeDot={false}
+              />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      )}
+
+      {isMacros && (
+        <div className="metric-chart-legend">
+          {MACRO_CALORIE_KEYS.map((entry) => (
+            <span key={entry.key} className="metric-chart-legend-item">
+              <span className="metric-chart-legend-swatch" style={{ background: entry.color }} />
+              {entry.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MetricChart;
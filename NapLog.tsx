@@ -0,0 +1,116 @@
+/**
+ * NapLog - Naps for a day (kept apart from night sleep)
+ *
+ * TypeScript Concepts:
+ * - Controlled form with string inputs parsed on save
+ * - Omit<> for entries before the id is assigned
+ */
+
+import { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import StyledInput from '../ui/StyledInput';
+import PrimaryButton from '../ui/PrimaryButton';
+import { createNap, formatClockTime, getNapMinutes } from './sleep';
+import type { NapEntry } from './sleep';
+
+interface NapLogProps {
+  /** Naps logged for this day */
+  naps: NapEntry[];
+  /** Save a new nap */
+  onAdd: (nap: Omit<NapEntry, 'id'>) => Promise<void>;
+  /** Delete a nap */
+  onDelete: (id: string) => Promise<void>;
+}
+
+/**
+ * NapLog - Logged naps and an add form
+ */
+function NapLog({ naps, onAdd, onDelete }: NapLogProps) {
+  const [durationValue, setDurationValue] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const duration = parseFloat(durationValue);
+  const isValid = !isNaN(duration) && duration > 0;
+  const totalMinutes = getNapMinutes({ naps });
+
+  const handleAdd = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      await onAdd(createNap(Math.round(duration), startTime || null));
+      setDurationValue('');
+      setStartTime('');
+    } catch (error) {
+      console.error('Failed to add nap:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await onDelete(id);
+    } catch (error) {
+      console.error('Failed to delete nap:', error);
+    }
+  };
+
+  return (
+    <div className="nap-log">
+      <div className="body-input-label">
+        <div className="body-input-label-main">Naps</div>
+        {totalMinutes > 0 && <div className="body-input-label-hint">{totalMinutes} min today</div>}
+      </div>
+
+      {naps.map((nap) => (
+        <div key={nap.id} className="meal-log-entry">
+          <div className="meal-log-entry-main">
+            <div className="meal-log-entry-name">{nap.durationMinutes} min</div>
+            {nap.startTime && (
+              <div className="meal-log-entry-time">at {formatClockTime(nap.startTime)}</div>
+            )}
+          </div>
+          <div className="meal-log-entry-actions">
+            <button
+              type="button"
+              className="meal-log-entry-action"
+              onClick={() => handleDelete(nap.id)}
+              aria-label="Delete nap"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="nap-log-form">
+        <div className="body-input-field">
+          <StyledInput
+            type="number"
+            value={durationValue}
+            onChange={setDurationValue}
+            placeholder="—"
+            width={80}
+            step="5"
+            min="0"
+          />
+          <span className="body-input-unit">min</span>
+        </div>
+        <input
+          type="time"
+          className="sleep-input-time-field"
+          value={startTime}
+          onChange={(e) => setStartTime(e.target.value)}
+          aria-label="Nap start time"
+        />
+        <PrimaryButton variant="small" onClick={handleAdd} disabled={!isValid || isSaving}>
+          {isSaving ? 'Saving...' : 'Add Nap'}
+        </PrimaryButton>
+      </div>
+    </div>
+  );
+}
+
+export default NapLog;
@@ -0,0 +1,168 @@
+/**
+ * PhotoCompare - Two progress photos side by side with the weight change
+ *
+ * TypeScript Concepts:
+ * - Object URLs created and revoked in an effect
+ * - Defaults derived from props until the user picks
+ */
+
+import { useState, useEffect } from 'react';
+import { Trash2 } from 'lucide-react';
+import { PHOTO_POSE_OPTIONS, comparePhotoDates, findPhoto, getPhotoDates } from './progressPhotos';
+import type { PhotoPose, ProgressPhoto } from './progressPhotos';
+import { formatShortDate } from './dateKeys';
+import type { DayRecord } from './healthRecords';
+import { WEIGHT_UNITS, formatWeight, toDisplayWeight } from './units';
+import type { UnitSystem } from './units';
+
+interface PhotoCompareProps {
+  /** All stored photos */
+  photos: ProgressPhoto[];
+  /** All logged days (weights for each photo date) */
+  days: DayRecord[];
+  /** Unit for weights */
+  unitSystem: UnitSystem;
+  /** Delete a photo */
+  onDelete: (id: string) => Promise<void>;
+}
+
+interface PhotoPanelProps {
+  photo: ProgressPhoto | null;
+  weightLbs: number | null;
+  unitSystem: UnitSystem;
+  onDelete: (id: string) => Promise<void>;
+}
+
+/**
+ * One side of the comparison: image, date and weight
+ */
+function PhotoPanel({ photo, weightLbs, unitSystem, onDelete }: PhotoPanelProps) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  // Object URLs hold the blob in memory until revoked
+  useEffect(() => {
+    if (!photo) return;
+    const objectUrl = URL.createObjectURL(photo.image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [photo]);
+
+  if (!photo) {
+    return <div className="photo-compare-panel photo-compare-panel--empty">No photo</div>;
+  }
+
+  const handleDelete = async () => {
+    try {
+      await onDelete(photo.id);
+    } catch (error) {
+      console.error('Failed to delete photo:', error);
+    }
+  };
+
+  return (
+    <div className="photo-compare-panel">
+      {url && <img className="photo-compare-image" src={url} alt={`${photo.pose} photo from ${photo.date}`} />}
+      <div className="photo-compare-caption">
+        <span>
+          {formatShortDate(photo.date)}
+          {weightLbs !== null && ` · ${formatWeight(weightLbs, unitSystem)}`}
+        </span>
+        <button
+          type="button"
+          className="meal-log-entry-action"
+          onClick={handleDelete}
+          aria-label={`Delete photo from ${photo.date}`}
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * PhotoCompare - Pose toggle, before/after date pickers and two panels
+ */
+function PhotoCompare({ photos, days, unitSystem, onDelete }: PhotoCompareProps) {
+  const [pose, setPose] = useState<PhotoPose>('front');
+  const [beforeDate, setBeforeDate] = useState<string | null>(null);
+  const [afterDate, setAfterDate] = useState<string | null>(null);
+
+  const dates = getPhotoDates(photos, pose);
+  // Default to the oldest vs the newest photo; fall back if a pick was deleted
+  const before = beforeDate && dates.includes(beforeDate) ? beforeDate : dates[dates.length - 1] ?? null;
+  const after = afterDate && dates.includes(afterDate) ? afterDate : dates[0] ?? null;
+  const comparison = before && after ? comparePhotoDates(days, before, after) : null;
+
+  const handlePoseChange = (nextPose: PhotoPose) => {
+    setPose(nextPose);
+    setBeforeDate(null);
+    setAfterDate(null);
+  };
+
+  const renderDateSelect = (value: string | null, onChange: (date: string) => void, label: string) => (
+    <select
+      className="metric-chart-select"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={label}
+    >
+      {dates.map((date) => (
+        <option key={date} value={date}>{formatShortDate(date)}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="photo-compare">
+      <div className="cycle-toggle-buttons">
+        {PHOTO_POSE_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            className={`cycle-toggle-button ${pose === option.value ? 'active' : ''}`}
+            onClick={() => handlePoseChange(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {dates.length === 0 ? (
+        <div className="weight-chart-empty">Add a {pose} photo to start comparing</div>
+      ) : (
+        <>
+          <div className="photo-compare-pickers">
+            {renderDateSelect(before, setBeforeDate, 'Before date')}
+            {renderDateSelect(after, setAfterDate, 'After date')}
+          </div>
+
+          <div className="photo-compare-panels">
+            <PhotoPanel
+              photo={before ? findPhoto(photos, before, pose) : null}
+              weightLbs={comparison?.beforeWeight ?? null}
+              unitSystem={unitSystem}
+              onDelete={onDelete}
+            />
+            <PhotoPanel
+              photo={after ? findPhoto(photos, after, pose) : null}
+              weightLbs={comparison?.afterWeight ?? null}
+              unitSystem={unitSystem}
+              onDelete={onDelete}
+            />
+          </div>
+
+          {comparison && before !== after && (
+            <div className="photo-compare-summary">
+              {comparison.weightChange !== null
+                ? `${comparison.weightChange > 0 ? '+' : ''}${toDisplayWeight(comparison.weightChange, unitSystem).toFixed(1)} ${WEIGHT_UNITS[unitSystem]}`
+                : 'No weight logged near one of these dates'}
+              {` over ${Math.abs(comparison.days)} days`}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default PhotoCompare;
@@ -8,24 +8,54 @@
 
 import { useState, useEffect } from 'react';
 import PrimaryButton from '../ui/PrimaryButton';
+import {
+  WEIGHT_UNITS,
+  cmToHeight,
+  fromDisplayWeight,
+  heightToCm,
+  toWeightInputValue,
+  toWholeFeetInches,
+} from './units';
+import type { UnitSystem } from './units';
 
 interface ProfileFieldProps {
-  /** Label: "Age", "Height", "Weight" */
+  /** Label: "Age", "Height", "Weight", "Body Fat" */
   label: string;
-  /** Field value (number for single, object for height) */
+  /** Field value (number for single/weight, object for height) */
   value: number | { feet: number; inches: number } | null;
-  /** Change handler */
+  /** Save handler (resolves once the change is queued, see createQueuedSaves) */
   onChange: (value: number | { feet: number; inches: number }) => Promise<void>;
-  /** Unit: "years", "lbs" (not used for height) */
+  /** Unit: "years", "%" (not used for height or weight) */
   unit?: string;
-  /** Input type */
-  type?: 'single' | 'height';
+  /** Input type; weight and height values are lbs and ft/in */
+  type?: 'single' | 'height' | 'weight';
+  /** Unit preference for weight and height */
+  unitSystem?: UnitSystem;
+}
+
+/**
+ * Text shown in the single input for a stored value
+ */
+function toSingleText(
+  value: ProfileFieldProps['value'],
+  type: ProfileFieldProps['type'],
+  unitSystem: UnitSystem
+): string {
+  if (type === 'height') {
+    return value && typeof value === 'object' ? heightToCm(value).toString() : '';
+  }
+  if (!value || typeof value !== 'number') return '';
+  return type === 'weight' ? String(toWeightInputValue(value, unitSystem)) : value.toString();
 }
 
 /**
  * ProfileField - Profile input field with save button
  */
-function ProfileField({ label, value, onChange, unit, type = 'single' }: ProfileFieldProps) {
+function ProfileField({ label, value, onChange, unit, type = 'single', unitSystem = 'imperial' }: ProfileFieldProps) {
+  // Metric height is a single cm input
+  const isFeetInches = type === 'height' && unitSystem === 'imperial';
+  const savedText = toSingleText(value, type, unitSystem);
+
   // Single input state
   const [singleValue, setSingleValue] = useState<string>('');
   
@@ -34,39 +64,36 @@ function ProfileField({ label, value, onChange, unit, type = 'single' }: Profile
   const [inchesValue, setInchesValue] = useState<string>('');
   
   const [isSaving, setIsSaving] = useState(false);
+  const displayUnit = type === 'weight' ? WEIGHT_UNITS[unitSystem] : type === 'height' ? 'cm' : unit;
   const [hasChanged, setHasChanged] = useState(false);
 
   // Initialize from prop value
   useEffect(() => {
-    if (type === 'height') {
+    if (isFeetInches) {
       if (value && typeof value === 'object') {
-        setFeetValue(value.feet.toString());
-        setInchesValue(value.inches.toString());
+        const whole = toWholeFeetInches(value);
+        setFeetValue(whole.feet.toString());
+        setInchesValue(whole.inches.toString());
       } else {
         setFeetValue('');
         setInchesValue('');
       }
     } else {
-      if (value && typeof value === 'number') {
-        setSingleValue(value.toString());
-      } else {
-        setSingleValue('');
-      }
+      setSingleValue(savedText);
     }
     setHasChanged(false);
-  }, [value, type]);
+  }, [value, isFeetInches, savedText]);
 
   const handleSingleChange = (val: string) => {
     setSingleValue(val);
-    setHasChanged(val !== (value?.toString() || ''));
+    setHasChanged(val !== savedText);
   };
 
   const handleHeightChange = (feet: string, inches: string) => {
     setFeetValue(feet);
     setInchesValue(inches);
-    const currentFeet = value && typeof value === 'object' ? value.feet : 0;
-    const currentInches = value && typeof value === 'object' ? value.inches : 0;
-    setHasChanged(feet !== currentFeet.toString() || inches !== currentInches.toString());
+    const current = value && typeof value === 'object' ? toWholeFeetInches(value) : { feet: 0, inches: 0 };
+    setHasChanged(feet !== current.feet.toString() || inches !== current.inches.toString());
   };
 
   const handleSave = async () => {
@@ -74,10 +101,14 @@ function ProfileField({ label, value, onChange, unit, type = 'single' }: Profile
 
     setIsSaving(true);
     try {
-      if (type === 'height') {
+      if (isFeetInches) {
         const feet = parseInt(feetValue) || 0;
         const inches = parseInt(inchesValue) || 0;
         await onChange({ feet, inches });
+      } else if (type === 'height') {
+        await onChange(cmToHeight(parseFloat(singleValue) || 0));
+      } else if (type === 'weight') {
+        await onChange(fromDisplayWeight(parseFloat(singleValue) || 0, unitSystem));
       } else {
         const numValue = parseFloat(singleValue) || 0;
         await onChange(numValue);
@@ -90,7 +121,7 @@ function ProfileField({ label, value, onChange, unit, type = 'single' }: Profile
     }
   };
 
-  const isValid = type === 'height'
+  const isValid = isFeetInches
     ? (parseInt(feetValue) || 0) >= 0 && (parseInt(inchesValue) || 0) >= 0
     : !isNaN(parseFloat(singleValue)) && parseFloat(singleValue) > 0;
 
@@ -98,7 +129,7 @@ function ProfileField({ label, value, onChange, unit, type = 'single' }: Profile
     <div className="profile-field">
       <label className="profile-field-label">{label}</label>
       
-      {type === 'height' ? (
+      {isFeetInches ? (
         <div className="profile-field-controls">
           <div className="profile-field-height-inputs">
             <input
@@ -137,9 +168,10 @@ function ProfileField({ label, value, onChange, unit, type = 'single' }: Profile
               value={singleValue}
               onChange={(e) => handleSingleChange(e.target.value)}
               placeholder="0"
+              step={type === 'weight' ? '0.1' : undefined}
               disabled={isSaving}
             />
-            {unit && <span className="profile-field-unit">{unit}</span>}
+            {displayUnit && <span className="profile-field-unit">{displayUnit}</span>}
           </div>
           <PrimaryButton
             variant="small"
@@ -0,0 +1,103 @@
+/**
+ * ProgressPhotos - Progress photo upload and compare view for the Overview page
+ *
+ * Photos stay on this device (IndexedDB); see progressPhotos.ts.
+ *
+ * TypeScript Concepts:
+ * - Consuming a custom hook's state and actions
+ * - File input handling
+ */
+
+import { useState } from 'react';
+import PhotoCompare from './PhotoCompare';
+import { useProgressPhotos } from './useProgressPhotos';
+import { PHOTO_POSE_OPTIONS } from './progressPhotos';
+import type { PhotoPose } from './progressPhotos';
+import type { DayRecord } from './healthRecords';
+import type { UnitSystem } from './units';
+
+interface ProgressPhotosProps {
+  /** All logged days (weights for each photo date) */
+  days: DayRecord[];
+  /** Unit for weights */
+  unitSystem: UnitSystem;
+  /** Default date for a new photo ("YYYY-MM-DD") */
+  today: string;
+}
+
+/**
+ * ProgressPhotos - Date and pose pickers, file picker, then the compare view
+ */
+function ProgressPhotos({ days, unitSystem, today }: ProgressPhotosProps) {
+  const { photos, isLoading, error, addPhoto, removePhoto } = useProgressPhotos();
+  const [date, setDate] = useState(today);
+  const [pose, setPose] = useState<PhotoPose>('front');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !date) return;
+
+    setIsSaving(true);
+    try {
+      await addPhoto(date, pose, file);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="progress-photos">
+        <div className="skeleton skeleton--bar" style={{ height: '200px' }} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="progress-photos">
+      <div className="data-import">
+        <div className="data-import-row">
+          <input
+            type="date"
+            className="chart-range-date"
+            value={date}
+            max={today}
+            onChange={(e) => setDate(e.target.value)}
+            aria-label="Photo date"
+          />
+          <select
+            className="metric-chart-select"
+            value={pose}
+            onChange={(e) => setPose(e.target.value as PhotoPose)}
+            aria-label="Pose"
+          >
+            {PHOTO_POSE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <label className="data-import-file">
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            disabled={isSaving}
+          />
+          <span>{isSaving ? 'Saving…' : 'Add or replace a photo'}</span>
+        </label>
+
+        {error && <div className="data-import-warning">{error}</div>}
+        <div className="body-input-label-hint">Photos are stored only on this device.</div>
+      </div>
+
+      <PhotoCompare photos={photos} days={days} unitSystem={unitSystem} onDelete={removePhoto} />
+    </div>
+  );
+}
+
+export default ProgressPhotos;
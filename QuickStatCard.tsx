@@ -7,16 +7,22 @@
  */
 
 import ProgressBar from '../ui/ProgressBar';
+import { formatWeeklyRate } from './weightTrend';
+import type { WeightUnit } from './units';
 
 interface QuickStatCardProps {
   /** Label: "Avg Calories", "Avg Protein", etc. */
   label: string;
   /** 7-day average value */
   average: number | null;
-  /** Goal value */
+  /** Goal value (average of the goal in force on each day, see averageGoalOnDays) */
   goal: number;
   /** Unit: "kcal", "g", "h", or empty string */
   unit: string;
+  /** Weekly rate of change from the weight trend (omit to hide) */
+  weeklyRate?: number | null;
+  /** Unit for the weekly rate (the card's own unit may not be a weight) */
+  weightUnit?: WeightUnit;
   /** Loading state */
   isLoading?: boolean;
 }
@@ -24,7 +30,15 @@ interface QuickStatCardProps {
 /**
  * QuickStatCard - Stat card with average, goal, and progress bar
  */
-function QuickStatCard({ label, average, goal, unit, isLoading = false }: QuickStatCardProps) {
+function QuickStatCard({
+  label,
+  average,
+  goal,
+  unit,
+  weeklyRate = null,
+  weightUnit = 'lbs',
+  isLoading = false,
+}: QuickStatCardProps) {
   // Check if we have enough data (need at least some data points)
   const hasData = average !== null && !isNaN(average);
   const hasEnoughData = hasData; // Calculate from available days per PM decision
@@ -68,6 +82,9 @@ function QuickStatCard({ label, average, goal, unit, isLoading = false }: QuickS
             height={10}
             variant="gradient"
           />
+          {weeklyRate !== null && (
+            <div className="quick-stat-trend">{formatWeeklyRate(weeklyRate, weightUnit)}</div>
+          )}
         </>
       )}
     </div>
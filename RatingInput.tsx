@@ -12,7 +12,7 @@ import PrimaryButton from '../ui/PrimaryButton';
 import type { Rating } from '../../context/AppContext';
 
 interface RatingInputProps {
-  /** Label: "Energy", "Hunger", or "Motivation" */
+  /** Label: "Energy", "Hunger", "Motivation" or "Sleep quality" */
   label: string;
   /** Current rating value */
   value: Rating | null;
@@ -20,8 +20,8 @@ interface RatingInputProps {
   savedValue: Rating | null;
   /** Selection handler (temporary, before save) */
   onChange: (value: Rating) => void;
-  /** Save handler */
-  onSave: () => void;
+  /** Save handler (resolves once the change is queued) */
+  onSave: () => void | Promise<void>;
 }
 
 /**
@@ -55,11 +55,15 @@ function RatingInput({ label, value, savedValue, onChange, onSave }: RatingInput
     onChange(rating);
   };
   
-  const handleSave = () => {
+  const handleSave = async () => {
     if (localValue !== null) {
-      onSave();
-      setShowSaved(true);
-      setLocalValue(null); // Deselect after saving
+      try {
+        await onSave();
+        setShowSaved(true);
+        setLocalValue(null); // Deselect after saving
+      } catch (error) {
+        console.error('Failed to save rating:', error);
+      }
     }
   };
 
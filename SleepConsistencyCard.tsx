@@ -0,0 +1,72 @@
+/**
+ * SleepConsistencyCard - Bedtime variability for the Overview page
+ *
+ * Sits in the quick stats grid next to QuickStatCard and uses the same
+ * card layout and empty state.
+ *
+ * TypeScript Concepts:
+ * - Nullable summary from a helper
+ * - Memoizing a computation over all days
+ */
+
+import { useMemo } from 'react';
+import {
+  CONSISTENCY_LABELS,
+  CONSISTENCY_WINDOW_DAYS,
+  MIN_CONSISTENCY_NIGHTS,
+  calculateSleepConsistency,
+  formatClockTime,
+} from './sleep';
+import type { SleepConsistency } from './sleep';
+import type { DayRecord } from './healthRecords';
+
+interface SleepConsistencyCardProps {
+  /** All logged days */
+  days: DayRecord[];
+  /** Last date in the window ("YYYY-MM-DD", usually today) */
+  endDate: string;
+  /** Loading state */
+  isLoading?: boolean;
+}
+
+/**
+ * SleepConsistencyCard - Bedtime spread, average bedtime and a label
+ */
+function SleepConsistencyCard({ days, endDate, isLoading = false }: SleepConsistencyCardProps) {
+  const consistency: SleepConsistency | null = useMemo(
+    () => calculateSleepConsistency(days, endDate),
+    [days, endDate]
+  );
+
+  return (
+    <div className="quick-stat-card">
+      <div className="quick-stat-label">Bedtime Consistency</div>
+
+      {isLoading ? (
+        <div className="quick-stat-skeleton">
+          <div className="skeleton skeleton--text" style={{ width: '60%', marginBottom: '8px' }} />
+        </div>
+      ) : !consistency ? (
+        <div className="quick-stat-empty">
+          <div className="quick-stat-empty-value">—</div>
+          <div className="quick-stat-empty-subtext">Need {MIN_CONSISTENCY_NIGHTS} bedtimes</div>
+        </div>
+      ) : (
+        <>
+          <div className="quick-stat-values">
+            <span className="quick-stat-average">±{consistency.bedtimeDeviationMinutes}</span>
+            <span className="quick-stat-goal"> min</span>
+          </div>
+          <div className={`sleep-consistency-level sleep-consistency-level--${consistency.level}`}>
+            {CONSISTENCY_LABELS[consistency.level]}
+          </div>
+          <div className="quick-stat-trend">
+            Avg bedtime {formatClockTime(consistency.averageBedtime)} · last {CONSISTENCY_WINDOW_DAYS} days
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SleepConsistencyCard;
@@ -1,24 +1,35 @@
 /**
- * SleepInput - Input for sleep hours
- * 
+ * SleepInput - Input for sleep hours, or bedtime and wake time
+ *
  * TypeScript Concepts:
  * - Handling null values
  * - Controlled number input
+ * - Derived value (hours from two times)
  */
 
 import StyledInput from '../ui/StyledInput';
+import { calculateSleepHours } from './sleep';
 
 interface SleepInputProps {
   /** Hours slept (null if not logged) */
   value: number | null;
   /** Update handler */
   onChange: (hours: number) => void;
+  /** "HH:MM" the night before (null if not logged) */
+  bedtime?: string | null;
+  /** "HH:MM" this morning (null if not logged) */
+  wakeTime?: string | null;
+  /** Time update handler; hours is null until both times are set (omit to hide the times) */
+  onTimesChange?: (bedtime: string | null, wakeTime: string | null, hours: number | null) => void;
 }
 
 /**
- * SleepInput - Sleep hours input with label
+ * SleepInput - Sleep hours input with label, plus optional bed/wake times
  */
-function SleepInput({ value, onChange }: SleepInputProps) {
+function SleepInput({ value, onChange, bedtime = null, wakeTime = null, onTimesChange }: SleepInputProps) {
+  // Times win over typed hours once both are set
+  const hasTimes = calculateSleepHours(bedtime, wakeTime) !== null;
+
   const handleChange = (val: string) => {
     const parsed = parseFloat(val);
     if (!isNaN(parsed) && parsed >= 0) {
@@ -26,28 +37,62 @@ function SleepInput({ value, onChange }: SleepInputProps) {
     }
   };
 
+  const handleTimeChange = (nextBedtime: string | null, nextWakeTime: string | null) => {
+    onTimesChange?.(nextBedtime, nextWakeTime, calculateSleepHours(nextBedtime, nextWakeTime));
+  };
+
   return (
-    <div className="body-input-row">
-      <div className="body-input-label">
-        <div className="body-input-label-main">Sleep</div>
-        <div className="body-input-label-hint">Last night</div>
+    <>
+      <div className="body-input-row">
+        <div className="body-input-label">
+          <div className="body-input-label-main">Sleep</div>
+          <div className="body-input-label-hint">
+            {hasTimes ? 'From bed/wake times' : 'Last night'}
+          </div>
+        </div>
+        <div className="body-input-field">
+          {hasTimes ? (
+            <span className="sleep-input-computed">{value ?? '—'}</span>
+          ) : (
+            <StyledInput
+              type="number"
+              value={value ?? ''}
+              onChange={handleChange}
+              placeholder="0"
+              width={100}
+              step="0.5"
+              min="0"
+              max="24"
+            />
+          )}
+          <span className="body-input-unit">hours</span>
+        </div>
       </div>
-      <div className="body-input-field">
-        <StyledInput
-          type="number"
-          value={value ?? ''}
-          onChange={handleChange}
-          placeholder="0"
-          width={100}
-          step="0.5"
-          min="0"
-          max="24"
-        />
-        <span className="body-input-unit">hours</span>
-      </div>
-    </div>
+
+      {onTimesChange && (
+        <div className="sleep-input-times">
+          <label className="sleep-input-time">
+            <span className="body-input-label-hint">Bedtime</span>
+            <input
+              type="time"
+              className="sleep-input-time-field"
+              value={bedtime ?? ''}
+              onChange={(e) => handleTimeChange(e.target.value || null, wakeTime)}
+            />
+          </label>
+          <label className="sleep-input-time">
+            <span className="body-input-label-hint">Wake time</span>
+            <input
+              type="time"
+              className="sleep-input-time-field"
+              value={wakeTime ?? ''}
+              onChange={(e) => handleTimeChange(bedtime, e.target.value || null)}
+            />
+          </label>
+        </div>
+      )}
+    </>
   );
 }
 
 export default SleepInput;
-
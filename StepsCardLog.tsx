@@ -1,34 +1,150 @@
 /**
- * StepsCardLog - Display-only steps card for Log page
- * 
+ * StepsCardLog - Steps card for Log page
+ *
  * Different from Dashboard StepsCard:
  * - Has background card
- * - Shows "Auto-synced" label
+ * - Shows where the steps came from and the sync status
+ * - Steps can be typed in when sync has nothing (manual values aren't overwritten by sync)
  * - No progress ring
+ *
+ * TypeScript Concepts:
+ * - Deriving one label from several optional props
+ * - View/edit mode toggle
  */
 
+import { useState } from 'react';
+import { Pencil } from 'lucide-react';
+import StyledInput from '../ui/StyledInput';
+import PrimaryButton from '../ui/PrimaryButton';
+import { formatSyncedAgo, getSourceLabel } from './healthProviders';
+import type { SyncStatus } from './healthProviders';
+
 interface StepsCardLogProps {
   /** Current step count */
   steps: number;
   /** Daily step goal */
   goal: number;
+  /** Provider id the steps were synced from (null if entered by hand or not logged) */
+  source?: string | null;
+  /** Status of the last health-data sync */
+  syncStatus?: SyncStatus;
+  /** ISO timestamp of the last successful sync */
+  lastSyncedAt?: string | null;
+  /** Save a manual count; null clears it so the next sync can fill it (omit for read-only) */
+  onStepsChange?: (steps: number | null) => Promise<void>;
+}
+
+/**
+ * Header label: sync in progress/failed, otherwise where today's steps came from
+ */
+function getSyncLabel(syncStatus: SyncStatus, source: string | null, steps: number): string {
+  if (syncStatus === 'syncing') return 'Syncing…';
+  if (syncStatus === 'error') return 'Sync failed';
+  if (source) return `From ${getSourceLabel(source)}`;
+  return steps > 0 ? 'Entered manually' : 'Not synced';
 }
 
 /**
  * StepsCardLog - Steps display with card background
  */
-function StepsCardLog({ steps, goal }: StepsCardLogProps) {
+function StepsCardLog({
+  steps,
+  goal,
+  source = null,
+  syncStatus = 'idle',
+  lastSyncedAt = null,
+  onStepsChange,
+}: StepsCardLogProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [stepsValue, setStepsValue] = useState('');
+
+  const parsed = parseInt(stepsValue, 10);
+  const isValid = !isNaN(parsed) && parsed >= 0;
+  const isManual = !source && steps > 0;
+
+  const startEditing = () => {
+    setStepsValue(steps > 0 ? steps.toString() : '');
+    setIsEditing(true);
+  };
+
+  const save = async (value: number | null) => {
+    if (!onStepsChange) return;
+
+    setIsSaving(true);
+    try {
+      await onStepsChange(value);
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Failed to save steps:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
     <div className="steps-card-log">
       <div className="steps-card-log-header">
         <span className="steps-card-log-label">Steps</span>
-        <span className="steps-card-log-sync">Auto-synced</span>
+        <span className={`steps-card-log-sync ${syncStatus === 'error' ? 'steps-card-log-sync--error' : ''}`}>
+          {getSyncLabel(syncStatus, source, steps)}
+          {onStepsChange && !isEditing && (
+            <button
+              type="button"
+              className="steps-card-log-edit"
+              onClick={startEditing}
+              aria-label="Enter steps manually"
+            >
+              <Pencil size={14} />
+            </button>
+          )}
+        </span>
       </div>
-      <div className="steps-card-log-value">{steps.toLocaleString()}</div>
-      <div className="steps-card-log-goal">/ {goal.toLocaleString()}</div>
+
+      {isEditing ? (
+        <div className="steps-card-log-form">
+          <StyledInput
+            type="number"
+            value={stepsValue}
+            onChange={setStepsValue}
+            placeholder="—"
+            width={100}
+            step="1"
+            min="0"
+          />
+          <PrimaryButton variant="small" onClick={() => save(parsed)} disabled={!isValid || isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </PrimaryButton>
+          {isManual && (
+            <button
+              type="button"
+              className="steps-card-log-clear"
+              onClick={() => save(null)}
+              disabled={isSaving}
+            >
+              Use synced
+            </button>
+          )}
+          <button
+            type="button"
+            className="steps-card-log-clear"
+            onClick={() => setIsEditing(false)}
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="steps-card-log-value">{steps.toLocaleString()}</div>
+          <div className="steps-card-log-goal">/ {goal.toLocaleString()}</div>
+        </>
+      )}
+
+      {lastSyncedAt && (
+        <div className="steps-card-log-synced-at">Last synced {formatSyncedAgo(lastSyncedAt)}</div>
+      )}
     </div>
   );
 }
 
 export default StepsCardLog;
-
@@ -0,0 +1,182 @@
+/**
+ * SymptomLog - Flow, symptom checklist and notes for a day
+ *
+ * Shown under CycleSection's period toggle. Flow only appears on
+ * period days; the checklist can be edited in place.
+ *
+ * TypeScript Concepts:
+ * - Toggling items in a string array
+ * - Draft state saved explicitly (notes, checklist)
+ */
+
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import StyledInput from '../ui/StyledInput';
+import PrimaryButton from '../ui/PrimaryButton';
+import { FLOW_OPTIONS, MAX_SYMPTOM_LENGTH, normalizeSymptomChecklist, toggleSymptom } from './cycleSymptoms';
+import type { FlowLevel } from './cycleSymptoms';
+
+interface SymptomLogProps {
+  /** Today's period answer (flow is only asked on period days) */
+  isPeriodDay: boolean | null;
+  /** Flow logged for this day */
+  flow: FlowLevel | null;
+  /** Flow update handler (null clears it) */
+  onFlowChange: (flow: FlowLevel | null) => void;
+  /** Symptoms ticked for this day */
+  symptoms: string[];
+  /** Symptom update handler */
+  onSymptomsChange: (symptoms: string[]) => void;
+  /** Symptoms offered as checkboxes */
+  checklist: string[];
+  /** Save an edited checklist */
+  onChecklistChange: (checklist: string[]) => Promise<void>;
+  /** Note for this day */
+  notes: string | null;
+  /** Save the note (null clears it) */
+  onNotesChange: (notes: string | null) => Promise<void>;
+}
+
+/**
+ * SymptomLog - Flow buttons, symptom chips and a note
+ */
+function SymptomLog({
+  isPeriodDay,
+  flow,
+  onFlowChange,
+  symptoms,
+  onSymptomsChange,
+  checklist,
+  onChecklistChange,
+  notes,
+  onNotesChange,
+}: SymptomLogProps) {
+  const [noteDraft, setNoteDraft] = useState(notes ?? '');
+  const [isSavingNote, setIsSavingNote] = useState(false);
+  const [isEditingList, setIsEditingList] = useState(false);
+  const [newSymptom, setNewSymptom] = useState('');
+
+  // Sync draft when the saved note changes (e.g. switching days)
+  useEffect(() => {
+    setNoteDraft(notes ?? '');
+  }, [notes]);
+
+  // Ticked symptoms no longer on the checklist stay visible for this day
+  const options = [...checklist, ...symptoms.filter(symptom => !checklist.includes(symptom))];
+  const noteChanged = noteDraft.trim() !== (notes ?? '');
+
+  const handleSaveNote = async () => {
+    setIsSavingNote(true);
+    try {
+      await onNotesChange(noteDraft.trim() || null);
+    } catch (error) {
+      console.error('Failed to save note:', error);
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  const saveChecklist = async (next: string[]) => {
+    try {
+      await onChecklistChange(normalizeSymptomChecklist(next));
+    } catch (error) {
+      console.error('Failed to save symptom list:', error);
+    }
+  };
+
+  const handleAddSymptom = async () => {
+    if (!newSymptom.trim()) return;
+    await saveChecklist([...checklist, newSymptom]);
+    setNewSymptom('');
+  };
+
+  return (
+    <div className="symptom-log">
+      {isPeriodDay === true && (
+        <>
+          <div className="cycle-section-question">Flow</div>
+          <div className="cycle-toggle-buttons symptom-log-flow">
+            {FLOW_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                className={`cycle-toggle-button ${flow === option.value ? 'active' : ''}`}
+                onClick={() => onFlowChange(flow === option.value ? null : option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="symptom-log-header">
+        <div className="cycle-section-question">Symptoms</div>
+        <button
+          type="button"
+          className="insights-pending-toggle"
+          onClick={() => setIsEditingList((prev) => !prev)}
+        >
+          {isEditingList ? 'Done' : 'Edit list'}
+        </button>
+      </div>
+
+      {isEditingList ? (
+        <div className="symptom-log-edit">
+          {checklist.map((symptom) => (
+            <span key={symptom} className="symptom-log-chip">
+              {symptom}
+              <button
+                type="button"
+                className="symptom-log-chip-remove"
+                onClick={() => saveChecklist(checklist.filter(item => item !== symptom))}
+                aria-label={`Remove ${symptom}`}
+              >
+                <X size={14} />
+              </button>
+            </span>
+          ))}
+          <div className="symptom-log-add">
+            <StyledInput
+              type="text"
+              value={newSymptom}
+              onChange={(value) => setNewSymptom(value.slice(0, MAX_SYMPTOM_LENGTH))}
+              placeholder="Add a symptom"
+            />
+            <PrimaryButton variant="small" onClick={handleAddSymptom} disabled={!newSymptom.trim()}>
+              Add
+            </PrimaryButton>
+          </div>
+        </div>
+      ) : (
+        <div className="symptom-log-chips">
+          {options.map((symptom) => (
+            <button
+              key={symptom}
+              type="button"
+              className={`symptom-log-chip ${symptoms.includes(symptom) ? 'active' : ''}`}
+              onClick={() => onSymptomsChange(toggleSymptom(symptoms, symptom))}
+            >
+              {symptom}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="cycle-section-question">Notes</div>
+      <textarea
+        className="food-import-textarea"
+        value={noteDraft}
+        onChange={(e) => setNoteDraft(e.target.value)}
+        placeholder="Anything else about today"
+        rows={3}
+      />
+      {noteChanged && (
+        <PrimaryButton variant="small" onClick={handleSaveNote} disabled={isSavingNote}>
+          {isSavingNote ? 'Saving...' : 'Save Note'}
+        </PrimaryButton>
+      )}
+    </div>
+  );
+}
+
+export default SymptomLog;
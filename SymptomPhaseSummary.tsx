@@ -0,0 +1,66 @@
+/**
+ * SymptomPhaseSummary - Most common symptoms in each cycle phase
+ *
+ * TypeScript Concepts:
+ * - Memoizing a summary over all days
+ * - Lookup from option lists for labels
+ */
+
+import { useMemo } from 'react';
+import { FLOW_OPTIONS, MIN_PHASE_TRACKED_DAYS, summarizeSymptomsByPhase } from './cycleSymptoms';
+import type { PhaseSymptomSummary } from './cycleSymptoms';
+import type { CycleSummary } from './cycleTracking';
+import type { DayRecord } from './healthRecords';
+
+interface SymptomPhaseSummaryProps {
+  /** All logged days */
+  days: DayRecord[];
+  /** Cycle history and learned settings (from summarizeCycles) */
+  summary: CycleSummary;
+}
+
+/**
+ * SymptomPhaseSummary - One row per phase with its frequent symptoms
+ */
+function SymptomPhaseSummary({ days, summary }: SymptomPhaseSummaryProps) {
+  const phases: PhaseSymptomSummary[] = useMemo(
+    () => summarizeSymptomsByPhase(
+      days,
+      summary.history.map(cycle => cycle.start),
+      summary.effectiveSettings
+    ),
+    [days, summary]
+  );
+
+  if (phases.every(phase => phase.trackedDays === 0)) {
+    return (
+      <div className="symptom-summary-empty">
+        Log symptoms across a cycle to see patterns by phase
+      </div>
+    );
+  }
+
+  return (
+    <ul className="symptom-summary">
+      {phases.map((phase) => (
+        <li key={phase.phase} className="symptom-summary-row">
+          <div className="symptom-summary-phase">
+            {phase.label}
+            <span className="symptom-summary-days">{phase.trackedDays} days</span>
+          </div>
+          <div className="symptom-summary-detail">
+            {phase.trackedDays < MIN_PHASE_TRACKED_DAYS
+              ? `Need ${MIN_PHASE_TRACKED_DAYS} tracked days`
+              : phase.symptoms.length > 0
+                ? phase.symptoms.map((item) => `${item.symptom} ${item.percent}%`).join(' · ')
+                : 'No frequent symptoms'}
+            {phase.typicalFlow && phase.trackedDays >= MIN_PHASE_TRACKED_DAYS &&
+              ` · usually ${FLOW_OPTIONS.find(option => option.value === phase.typicalFlow)?.label.toLowerCase()} flow`}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default SymptomPhaseSummary;
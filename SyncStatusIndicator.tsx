@@ -0,0 +1,57 @@
+/**
+ * SyncStatusIndicator - Pending/failed badge for offline writes
+ *
+ * TypeScript Concepts:
+ * - Deriving a single status from several props
+ * - Early return when there's nothing to show
+ */
+
+import { AlertCircle, CloudOff, RefreshCw } from 'lucide-react';
+
+interface SyncStatusIndicatorProps {
+  /** Writes waiting to sync */
+  pendingCount: number;
+  /** Writes that stopped retrying */
+  failedCount: number;
+  /** Browser connectivity */
+  isOnline: boolean;
+  /** A sync is in progress */
+  isSyncing: boolean;
+  /** Retry failed writes */
+  onRetry: () => void;
+}
+
+/**
+ * SyncStatusIndicator - Hidden when everything is synced
+ */
+function SyncStatusIndicator({ pendingCount, failedCount, isOnline, isSyncing, onRetry }: SyncStatusIndicatorProps) {
+  if (failedCount > 0) {
+    return (
+      <div className="sync-status sync-status--failed">
+        <AlertCircle size={14} />
+        <span>{failedCount} change{failedCount === 1 ? '' : 's'} failed to save</span>
+        <button type="button" className="sync-status-retry" onClick={onRetry}>
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (pendingCount === 0) return null;
+
+  return (
+    <div className="sync-status">
+      {isOnline ? (
+        <RefreshCw size={14} className={isSyncing ? 'sync-status-spin' : ''} />
+      ) : (
+        <CloudOff size={14} />
+      )}
+      <span>
+        {pendingCount} change{pendingCount === 1 ? '' : 's'}{' '}
+        {isOnline ? 'syncing' : 'saved offline'}
+      </span>
+    </div>
+  );
+}
+
+export default SyncStatusIndicator;
@@ -0,0 +1,141 @@
+/**
+ * TdeeRecommendation - Estimated maintenance calories and a suggested goal
+ *
+ * TypeScript Concepts:
+ * - Nullable computed props
+ * - Reusing the goal save path via callback
+ */
+
+import { useState, useEffect } from 'react';
+import { Check } from 'lucide-react';
+import PrimaryButton from '../ui/PrimaryButton';
+import { DEFAULT_WEEKLY_RATE, MIN_CALORIE_GOAL, WEEKLY_RATE_OPTIONS, recommendCalorieGoal } from './tdeeEstimate';
+import type { EstimateConfidence, TdeeEstimate } from './tdeeEstimate';
+import { formatWeeklyRate } from './weightTrend';
+import { WEIGHT_UNITS, toDisplayWeight } from './units';
+import type { UnitSystem } from './units';
+
+interface TdeeRecommendationProps {
+  /** Estimate (null if not enough data) */
+  estimate: TdeeEstimate | null;
+  /** Current calorie goal */
+  currentGoal: number;
+  /** Same save handler GoalEditor uses for calories */
+  onApply: (calories: number) => Promise<void>;
+  /** Unit for the trend and rate choices */
+  unitSystem?: UnitSystem;
+}
+
+const CONFIDENCE_LABELS: Record<EstimateConfidence, string> = {
+  low: 'Low confidence',
+  medium: 'Medium confidence',
+  high: 'High confidence',
+};
+
+/**
+ * TdeeRecommendation - TDEE card with rate picker and one-tap apply
+ */
+function TdeeRecommendation({ estimate, currentGoal, onApply, unitSystem = 'imperial' }: TdeeRecommendationProps) {
+  const [targetRate, setTargetRate] = useState(DEFAULT_WEEKLY_RATE[unitSystem]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [showApplied, setShowApplied] = useState(false);
+
+  // Options change with the unit, so reset the pick too
+  useEffect(() => {
+    setTargetRate(DEFAULT_WEEKLY_RATE[unitSystem]);
+  }, [unitSystem]);
+
+  // Auto-hide applied indicator after 2 seconds
+  useEffect(() => {
+    if (showApplied) {
+      const timer = setTimeout(() => {
+        setShowApplied(false);
+      }, 2000);
+      return () => clearTimeout(timer);
+    }
+  }, [showApplied]);
+
+  if (!estimate) {
+    return (
+      <div className="tdee-card">
+        <div className="tdee-card-label">Estimated Maintenance</div>
+        <div className="quick-stat-empty-subtext">
+          Log food for 7+ days and weigh in 3+ times to estimate your TDEE
+        </div>
+      </div>
+    );
+  }
+
+  const recommendedGoal = recommendCalorieGoal(estimate.tdee, targetRate);
+  const isFloored = recommendedGoal === MIN_CALORIE_GOAL;
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply(recommendedGoal);
+      setShowApplied(true);
+    } catch (error) {
+      console.error('Failed to apply calorie goal:', error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="tdee-card">
+      <div className="tdee-card-header">
+        <span className="tdee-card-label">Estimated Maintenance</span>
+        <span className={`tdee-confidence tdee-confidence--${estimate.confidence}`}>
+          {CONFIDENCE_LABELS[estimate.confidence]}
+        </span>
+      </div>
+
+      <div className="tdee-card-value">
+        {estimate.tdee.toLocaleString()}
+        <span className="tdee-card-range"> ±{estimate.uncertainty} kcal</span>
+      </div>
+
+      <div className="tdee-card-detail">
+        Avg intake {estimate.averageIntake.toLocaleString()} kcal · Trend {formatWeeklyRate(toDisplayWeight(estimate.weeklyRate, unitSystem), WEIGHT_UNITS[unitSystem])}
+        <br />
+        {estimate.intakeDays} of {estimate.windowDays} days logged · {estimate.weighInDays} weigh-ins
+      </div>
+
+      <div className="tdee-card-recommend">
+        <select
+          className="metric-chart-select"
+          value={targetRate}
+          onChange={(e) => setTargetRate(parseFloat(e.target.value))}
+        >
+          {WEEKLY_RATE_OPTIONS[unitSystem].map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <div className="tdee-card-goal">
+          {recommendedGoal.toLocaleString()} kcal
+          {isFloored && <span className="tdee-card-note"> (minimum)</span>}
+        </div>
+      </div>
+
+      <div className="tdee-card-actions">
+        {showApplied && (
+          <span className="goal-editor-saved">
+            <Check size={18} strokeWidth={3} />
+            Applied
+          </span>
+        )}
+        <PrimaryButton
+          variant="small"
+          onClick={handleApply}
+          disabled={recommendedGoal === currentGoal || isApplying}
+        >
+          {isApplying ? 'Applying...' : 'Apply Goal'}
+        </PrimaryButton>
+      </div>
+    </div>
+  );
+}
+
+export default TdeeRecommendation;
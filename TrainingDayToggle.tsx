@@ -0,0 +1,40 @@
+/**
+ * TrainingDayToggle - Mark a day as a training day for the goal schedule
+ *
+ * TypeScript Concepts:
+ * - Nullable boolean (not answered yet)
+ */
+
+interface TrainingDayToggleProps {
+  /** This day's flag (null if not set) */
+  isTrainingDay: boolean | null;
+  /** Update handler */
+  onChange: (value: boolean) => void;
+}
+
+/**
+ * TrainingDayToggle - Yes/No toggle, same layout as the period-day question
+ */
+function TrainingDayToggle({ isTrainingDay, onChange }: TrainingDayToggleProps) {
+  return (
+    <div>
+      <div className="cycle-section-question">Training day?</div>
+      <div className="cycle-toggle-buttons">
+        <button
+          className={`cycle-toggle-button ${isTrainingDay === true ? 'active' : ''}`}
+          onClick={() => onChange(true)}
+        >
+          Yes
+        </button>
+        <button
+          className={`cycle-toggle-button ${isTrainingDay === false ? 'active' : ''}`}
+          onClick={() => onChange(false)}
+        >
+          No
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default TrainingDayToggle;
@@ -0,0 +1,58 @@
+/**
+ * UnitSystemToggle - Choose lbs/ft-in or kg/cm for the whole app
+ *
+ * TypeScript Concepts:
+ * - Union-typed toggle options
+ * - Async save with error logging
+ */
+
+import { useState } from 'react';
+import { UNIT_SYSTEM_OPTIONS } from './units';
+import type { UnitSystem } from './units';
+
+interface UnitSystemToggleProps {
+  /** Current preference from the profile */
+  value: UnitSystem;
+  /** Save handler (same path as other profile fields) */
+  onChange: (value: UnitSystem) => Promise<void>;
+}
+
+/**
+ * UnitSystemToggle - Imperial/metric switch on the profile section
+ */
+function UnitSystemToggle({ value, onChange }: UnitSystemToggleProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSelect = async (system: UnitSystem) => {
+    if (system === value) return;
+
+    setIsSaving(true);
+    try {
+      await onChange(system);
+    } catch (error) {
+      console.error('Failed to save unit preference:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="profile-field">
+      <label className="profile-field-label">Units</label>
+      <div className="cycle-toggle-buttons">
+        {UNIT_SYSTEM_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            className={`cycle-toggle-button ${value === option.value ? 'active' : ''}`}
+            onClick={() => handleSelect(option.value)}
+            disabled={isSaving}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default UnitSystemToggle;
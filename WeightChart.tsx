@@ -5,28 +5,51 @@
  * - Recharts library integration
  * - Data transformation for chart
  * - Empty state handling
+ * - Shaded reference areas for cycle phases
  */
 
-import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
-
-interface WeightDataPoint {
-  date: string; // "MM/DD" format
-  weight: number;
-}
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip, ReferenceArea } from 'recharts';
+import { calculateTrend, summarizeWeightTrend } from './weightTrend';
+import type { WeightDataPoint } from './weightTrend';
+import { downsampleForChart, filterByRange, formatAxisLabel, getSpanDays } from './chartRange';
+import type { ChartRange, CustomDateRange } from './chartRange';
+import WeightTrendStats from './WeightTrendStats';
+import { WEIGHT_UNITS, toDisplayWeight } from './units';
+import type { UnitSystem } from './units';
+import { CYCLE_PHASE_LABELS, CYCLE_PHASE_NAMES, getCyclePosition } from './cycleTracking';
+import type { CycleSummary } from './cycleTracking';
+import { BASELINE_PHASE, comparePhaseWeights, getPhaseBands } from './phaseWeight';
+import type { PhaseWeightComparison } from './phaseWeight';
 
 interface WeightChartProps {
   /** Weight data points */
   data: WeightDataPoint[];
   /** Time range filter */
-  days: '7d' | '14d' | '30d';
+  days: ChartRange;
+  /** Start/end dates when days is "custom" */
+  customRange?: CustomDateRange | null;
+  /** Target weight in lbs for goal projection (null if not set) */
+  targetWeight?: number | null;
+  /** Unit for the axis, tooltip and stats (data stays in lbs) */
+  unitSystem?: UnitSystem;
+  /** Cycle history for phase shading and comparison (null if not tracking) */
+  cycleSummary?: CycleSummary | null;
   /** Loading state */
   isLoading?: boolean;
 }
 
 /**
- * WeightChart - Line chart for weight trend
+ * WeightChart - Raw daily weights with a smoothed trend line
  */
-function WeightChart({ data, days, isLoading = false }: WeightChartProps) {
+function WeightChart({
+  data,
+  days,
+  customRange = null,
+  targetWeight = null,
+  unitSystem = 'imperial',
+  cycleSummary = null,
+  isLoading = false,
+}: WeightChartProps) {
   // Need at least 2 points to show a line
   if (isLoading) {
     return (
@@ -38,7 +61,15 @@ function WeightChart({ data, days, isLoading = false }: WeightChartProps) {
     );
   }
 
-  if (data.length < 2) {
+  // Convert once up front so the trend, axis and stats all share the user's unit
+  const unit = WEIGHT_UNITS[unitSystem];
+  const rangeData = filterByRange(data, days, customRange).map(point => ({
+    ...point,
+    weight: toDisplayWeight(point.weight, unitSystem),
+  }));
+  const displayTarget = targetWeight === null ? null : toDisplayWeight(targetWeight, unitSystem);
+
+  if (rangeData.length < 2) {
     return (
       <div className="weight-chart">
         <div className="weight-chart-empty">
@@ -48,8 +79,16 @@ function WeightChart({ data, days, isLoading = false }: WeightChartProps) {
     );
   }
 
+  // Smoothed trend alongside raw values (computed before downsampling)
+  const trendData = calculateTrend(rangeData);
+  const summary = summarizeWeightTrend(rangeData, displayTarget);
+
+  // Long spans are shown as weekly averages
+  const spanDays = getSpanDays(rangeData);
+  const { points: displayData, isWeekly } = downsampleForChart(trendData, ['weight', 'trend']);
+
   // Calculate Y-axis range (min - 2 to max + 2)
-  const weights = data.map(d => d.weight);
+  const weights = displayData.map(d => d.weight);
   const minWeight = Math.min(...weights);
   const maxWeight = Math.max(...weights);
   const yMin = Math.floor(minWeight - 2);
@@ -57,18 +96,44 @@ function WeightChart({ data, days, isLoading = false }: WeightChartProps) {
   const yMid = Math.round((yMin + yMax) / 2);
 
   // Format data for Recharts (need numeric x-axis)
-  const chartData = data.map((point, index) => ({
+  const chartData = displayData.map((point, index) => ({
     ...point,
     index, // For x-axis positioning
   }));
 
+  // Phase shading only makes sense for daily points
+  const periodStarts = cycleSummary ? cycleSummary.history.map(cycle => cycle.start) : [];
+  const phaseBands = cycleSummary && !isWeekly
+    ? getPhaseBands(displayData, periodStarts, cycleSummary.effectiveSettings)
+    : [];
+  // Compared over all logged weights, not just the visible range
+  const phaseComparison: PhaseWeightComparison | null = cycleSummary
+    ? comparePhaseWeights(
+        data.map(point => ({ ...point, weight: toDisplayWeight(point.weight, unitSystem) })),
+        periodStarts,
+        cycleSummary.effectiveSettings
+      )
+    : null;
+
+  const getPhaseLabel = (fullDate: string | undefined): string | null => {
+    if (!cycleSummary || isWeekly || !fullDate) return null;
+    const position = getCyclePosition(fullDate, periodStarts, cycleSummary.effectiveSettings);
+    return position ? `${CYCLE_PHASE_LABELS[position.phase]} · day ${position.cycleDay}` : null;
+  };
+
   // Custom tooltip
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
+      const point = payload[0].payload;
+      const phaseLabel = getPhaseLabel(point.fullDate);
       return (
         <div className="weight-chart-tooltip">
-          <div className="weight-chart-tooltip-label">{payload[0].payload.date}</div>
-          <div className="weight-chart-tooltip-value">{payload[0].value.toFixed(1)} lbs</div>
+          <div className="weight-chart-tooltip-label">
+            {isWeekly ? `Week of ${point.date}` : point.date}
+          </div>
+          <div className="weight-chart-tooltip-value">{point.weight.toFixed(1)} {unit}</div>
+          <div className="weight-chart-tooltip-trend">Trend {point.trend.toFixed(1)} {unit}</div>
+          {phaseLabel && <div className="weight-chart-tooltip-trend">{phaseLabel}</div>}
         </div>
       );
     }
@@ -90,9 +155,10 @@ function WeightChart({ data, days, isLoading = false }: WeightChartProps) {
             dataKey="index"
             tickFormatter={(index) => {
               // Show 3 labels: first, middle, last
-              if (index === 0) return data[0].date;
-              if (index === Math.floor(data.length / 2)) return data[Math.floor(data.length / 2)].date;
-              if (index === data.length - 1) return data[data.length - 1].date;
+              const middle = Math.floor(displayData.length / 2);
+              if (index === 0 || index === middle || index === displayData.length - 1) {
+                return formatAxisLabel(displayData[index], spanDays);
+              }
               return '';
             }}
             tick={{ fontSize: 12, fill: 'var(--color-text-tertiary)' }}
@@ -108,21 +174,84 @@ function WeightChart({ data, days, isLoading = false }: WeightChartProps) {
             tickLine={false}
             width={40}
           />
+
+          {/* Cycle phase shading, behind the lines */}
+          {phaseBands.map((band) => (
+            <ReferenceArea
+              key={band.startIndex}
+              x1={band.startIndex}
+              x2={band.endIndex}
+              fill={`var(--color-phase-${band.phase})`}
+              fillOpacity={0.35}
+              strokeOpacity={0}
+              ifOverflow="hidden"
+            />
+          ))}
           
           <Tooltip content={<CustomTooltip />} />
           
+          {/* Raw daily weights - faint, with dots */}
           <Line
-            type="monotone"
+            type="linear"
             dataKey="weight"
+            stroke="var(--color-text-tertiary)"
+            strokeOpacity={0.4}
+            strokeWidth={1}
+            dot={{ r: 2, fill: 'var(--color-text-tertiary)', strokeWidth: 0 }}
+            activeDot={{ r: 4 }}
+          />
+
+          {/* Smoothed trend */}
+          <Line
+            type="monotone"
+            dataKey="trend"
             stroke="url(#weightLineGrad)"
             strokeWidth={3}
             strokeLinecap="round"
             strokeLinejoin="round"
             dot={false}
-            activeDot={{ r: 4 }}
+            activeDot={false}
           />
         </LineChart>
       </ResponsiveContainer>
+
+      {phaseBands.length > 0 && (
+        <div className="metric-chart-legend">
+          {CYCLE_PHASE_NAMES.map((phase) => (
+            <span key={phase} className="metric-chart-legend-item">
+              <span
+                className="metric-chart-legend-swatch"
+                style={{ background: `var(--color-phase-${phase})` }}
+              />
+              {CYCLE_PHASE_LABELS[phase]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <WeightTrendStats summary={summary} targetWeight={displayTarget} unit={unit} />
+
+      {phaseComparison && (
+        <div className="weight-chart-phases">
+          <div className="weight-chart-phases-title">
+            Compared with your {CYCLE_PHASE_LABELS[BASELINE_PHASE].toLowerCase()} phase
+          </div>
+          <div className="weight-chart-phases-values">
+            {phaseComparison.changes.map((change) => (
+              <span key={change.phase} className="weight-chart-phases-value">
+                {change.label} {change.averageChange > 0 ? '+' : ''}{change.averageChange.toFixed(1)} {unit}
+              </span>
+            ))}
+          </div>
+          {phaseComparison.highest && (
+            <div className="weight-chart-phases-note">
+              Weight runs about {phaseComparison.highest.averageChange.toFixed(1)} {unit} higher in your{' '}
+              {phaseComparison.highest.label.toLowerCase()} phase (over {phaseComparison.highest.cycleCount} cycles).
+              This is mostly water and usually drops once your period starts.
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -6,22 +6,26 @@
  */
 
 import StyledInput from '../ui/StyledInput';
+import { WEIGHT_UNITS, fromDisplayWeight, toWeightInputValue } from './units';
+import type { UnitSystem } from './units';
 
 interface WeightInputProps {
   /** Weight in lbs (null if not logged) */
   value: number | null;
-  /** Update handler */
+  /** Update handler (always lbs) */
   onChange: (lbs: number) => void;
+  /** Unit to show and type in */
+  unitSystem?: UnitSystem;
 }
 
 /**
  * WeightInput - Weight input with label
  */
-function WeightInput({ value, onChange }: WeightInputProps) {
+function WeightInput({ value, onChange, unitSystem = 'imperial' }: WeightInputProps) {
   const handleChange = (val: string) => {
     const parsed = parseFloat(val);
     if (!isNaN(parsed) && parsed >= 0) {
-      onChange(parsed);
+      onChange(fromDisplayWeight(parsed, unitSystem));
     }
   };
 
@@ -33,14 +37,14 @@ function WeightInput({ value, onChange }: WeightInputProps) {
       <div className="body-input-field">
         <StyledInput
           type="number"
-          value={value ?? ''}
+          value={toWeightInputValue(value, unitSystem) ?? ''}
           onChange={handleChange}
           placeholder="—"
           width={100}
           step="0.1"
           min="0"
         />
-        <span className="body-input-unit">lbs</span>
+        <span className="body-input-unit">{WEIGHT_UNITS[unitSystem]}</span>
       </div>
     </div>
   );
@@ -0,0 +1,62 @@
+/**
+ * WeightTrendStats - Weekly rate and projected goal date under the weight chart
+ *
+ * TypeScript Concepts:
+ * - Consuming a shared computation module
+ * - Nullable props
+ */
+
+import { formatWeeklyRate } from './weightTrend';
+import type { WeightTrendSummary } from './weightTrend';
+import { roundTo } from './units';
+import type { WeightUnit } from './units';
+
+interface WeightTrendStatsProps {
+  /** Trend summary (null if not enough data) */
+  summary: WeightTrendSummary | null;
+  /** Target weight in the display unit (null if not set) */
+  targetWeight?: number | null;
+  /** Unit the summary is in */
+  unit?: WeightUnit;
+}
+
+/**
+ * Format "YYYY-MM-DD" as e.g. "Mar 14"
+ */
+function formatProjectedDate(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * WeightTrendStats - Trend weight, weekly change and goal projection
+ */
+function WeightTrendStats({ summary, targetWeight = null, unit = 'lbs' }: WeightTrendStatsProps) {
+  if (!summary) return null;
+
+  return (
+    <div className="weight-trend-stats">
+      <div className="weight-trend-stat">
+        <span className="weight-trend-stat-label">Trend</span>
+        <span className="weight-trend-stat-value">{summary.currentTrend.toFixed(1)} {unit}</span>
+      </div>
+      <div className="weight-trend-stat">
+        <span className="weight-trend-stat-label">Rate</span>
+        <span className="weight-trend-stat-value">{formatWeeklyRate(summary.weeklyRate, unit)}</span>
+      </div>
+      {targetWeight !== null && (
+        <div className="weight-trend-stat">
+          <span className="weight-trend-stat-label">Goal {roundTo(targetWeight, 1)} {unit}</span>
+          <span className="weight-trend-stat-value">
+            {summary.projectedDate ? formatProjectedDate(summary.projectedDate) : '—'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WeightTrendStats;
@@ -0,0 +1,241 @@
+/**
+ * WorkoutLog - Log workouts for a day and see calories burned
+ *
+ * Calories are estimated from type, intensity, duration and the
+ * latest weight; the user can type their own number instead (e.g.
+ * from a watch). Editing a workout loads it back into the form.
+ * An opt-in setting adds the total to the day's budget.
+ *
+ * TypeScript Concepts:
+ * - Controlled form with string inputs parsed on save
+ * - Omit<> for entries before the id is assigned
+ */
+
+import { useState } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+import StyledInput from '../ui/StyledInput';
+import PrimaryButton from '../ui/PrimaryButton';
+import {
+  WORKOUT_INTENSITY_OPTIONS,
+  WORKOUT_TYPE_OPTIONS,
+  createWorkout,
+  editWorkout,
+  estimateCaloriesBurned,
+  getCaloriesBurned,
+  getWorkoutLabel,
+} from './workouts';
+import type { WorkoutEntry, WorkoutIntensity, WorkoutType } from './workouts';
+
+interface WorkoutLogProps {
+  /** Workouts logged for this day */
+  workouts: WorkoutEntry[];
+  /** Latest weight in lbs for the estimate (null if never logged) */
+  weightLbs: number | null;
+  /** Whether burned calories are added to the calorie budget */
+  addExerciseCalories: boolean;
+  /** Save a new workout */
+  onAdd: (workout: Omit<WorkoutEntry, 'id'>) => Promise<void>;
+  /** Save an edited workout */
+  onUpdate: (workout: WorkoutEntry) => Promise<void>;
+  /** Delete a workout */
+  onDelete: (id: string) => Promise<void>;
+  /** Save the budget setting */
+  onAddExerciseCaloriesChange: (value: boolean) => Promise<void>;
+}
+
+/**
+ * WorkoutLog - Logged workouts, add form and budget setting
+ */
+function WorkoutLog({
+  workouts,
+  weightLbs,
+  addExerciseCalories,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onAddExerciseCaloriesChange,
+}: WorkoutLogProps) {
+  const [editing, setEditing] = useState<WorkoutEntry | null>(null);
+  const [type, setType] = useState<WorkoutType>('walking');
+  const [intensity, setIntensity] = useState<WorkoutIntensity>('moderate');
+  const [durationValue, setDurationValue] = useState('');
+  const [caloriesValue, setCaloriesValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const duration = parseFloat(durationValue);
+  const isValid = !isNaN(duration) && duration > 0;
+  const typedCalories = caloriesValue.trim() === '' ? null : parseFloat(caloriesValue);
+  const estimate = isValid ? estimateCaloriesBurned(type, intensity, duration, weightLbs) : null;
+  const totalBurned = getCaloriesBurned({ workouts });
+
+  const resetForm = () => {
+    setEditing(null);
+    setDurationValue('');
+    setCaloriesValue('');
+  };
+
+  const startEditing = (workout: WorkoutEntry) => {
+    // Leave calories blank when they were estimated, so changes re-estimate
+    const estimated = estimateCaloriesBurned(workout.type, workout.intensity, workout.durationMinutes, weightLbs);
+    setEditing(workout);
+    setType(workout.type);
+    setIntensity(workout.intensity);
+    setDurationValue(workout.durationMinutes.toString());
+    setCaloriesValue(workout.caloriesBurned === estimated ? '' : workout.caloriesBurned.toString());
+  };
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    const details = { type, intensity, durationMinutes: duration };
+    const calories = typedCalories !== null && !isNaN(typedCalories) && typedCalories >= 0
+      ? Math.round(typedCalories)
+      : null;
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await onUpdate(editWorkout(editing, details, weightLbs, calories));
+      } else {
+        await onAdd(createWorkout(details, weightLbs, calories));
+      }
+      resetForm();
+    } catch (error) {
+      console.error('Failed to save workout:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await onDelete(id);
+      if (editing?.id === id) resetForm();
+    } catch (error) {
+      console.error('Failed to delete workout:', error);
+    }
+  };
+
+  const handleToggle = async (value: boolean) => {
+    try {
+      await onAddExerciseCaloriesChange(value);
+    } catch (error) {
+      console.error('Failed to save exercise calories setting:', error);
+    }
+  };
+
+  return (
+    <div className="workout-log">
+      {workouts.length > 0 && (
+        <div className="workout-log-list">
+          {workouts.map((workout) => (
+            <div key={workout.id} className="meal-log-entry">
+              <div className="meal-log-entry-main">
+                <div className="meal-log-entry-name">{getWorkoutLabel(workout.type)}</div>
+                <div className="meal-log-entry-macros">
+                  {workout.durationMinutes} min · {workout.intensity} · {workout.caloriesBurned.toLocaleString()} kcal
+                </div>
+              </div>
+              <div className="meal-log-entry-actions">
+                <button
+                  type="button"
+                  className="meal-log-entry-action"
+                  onClick={() => startEditing(workout)}
+                  aria-label={`Edit ${getWorkoutLabel(workout.type)}`}
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  type="button"
+                  className="meal-log-entry-action"
+                  onClick={() => handleDelete(workout.id)}
+                  aria-label={`Delete ${getWorkoutLabel(workout.type)}`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+          <div className="workout-log-total">{totalBurned.toLocaleString()} kcal burned</div>
+        </div>
+      )}
+
+      <div className="workout-log-form">
+        <select
+          className="metric-chart-select"
+          value={type}
+          onChange={(e) => setType(e.target.value as WorkoutType)}
+        >
+          {WORKOUT_TYPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        <div className="cycle-toggle-buttons">
+          {WORKOUT_INTENSITY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              className={`cycle-toggle-button ${intensity === option.value ? 'active' : ''}`}
+              onClick={() => setIntensity(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="workout-log-inputs">
+          <div className="body-input-field">
+            <StyledInput
+              type="number"
+              value={durationValue}
+              onChange={setDurationValue}
+              placeholder="—"
+              width={80}
+              step="1"
+              min="0"
+            />
+            <span className="body-input-unit">min</span>
+          </div>
+          <div className="body-input-field">
+            <StyledInput
+              type="number"
+              value={caloriesValue}
+              onChange={setCaloriesValue}
+              placeholder={estimate !== null ? estimate.toString() : '—'}
+              width={80}
+              step="1"
+              min="0"
+            />
+            <span className="body-input-unit">kcal</span>
+          </div>
+        </div>
+
+        {editing ? (
+          <div className="meal-log-entry-edit-buttons">
+            <button type="button" className="food-search-clear" onClick={resetForm} disabled={isSaving}>
+              Cancel
+            </button>
+            <PrimaryButton variant="small" onClick={handleSave} disabled={!isValid || isSaving}>
+              {isSaving ? 'Saving...' : 'Save Workout'}
+            </PrimaryButton>
+          </div>
+        ) : (
+          <PrimaryButton variant="small" onClick={handleSave} disabled={!isValid || isSaving}>
+            {isSaving ? 'Saving...' : 'Add Workout'}
+          </PrimaryButton>
+        )}
+      </div>
+
+      <label className="data-import-checkbox">
+        <input
+          type="checkbox"
+          checked={addExerciseCalories}
+          onChange={(e) => handleToggle(e.target.checked)}
+        />
+        Add calories burned to my daily budget
+      </label>
+    </div>
+  );
+}
+
+export default WorkoutLog;
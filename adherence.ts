@@ -0,0 +1,180 @@
+/**
+ * adherence - Streaks, hit rates and per-day status for the Overview page
+ *
+ * Each day is judged against the goals in force on that date (goal
+ * history + schedule), not today's goals. A day with no food logged
+ * counts as "empty": it breaks streaks but isn't a miss.
+ *
+ * TypeScript Concepts:
+ * - Union types for metrics and day status
+ * - Walking a date range day by day
+ */
+
+import { calculateCalories } from '../../context/AppContext';
+import { addDays, daysBetween, toDateKey } from './dateKeys';
+import { getRangeBounds } from './chartRange';
+import type { ChartRange } from './chartRange';
+import { resolveGoalsOnDate } from './goalHistory';
+import type { GoalValues, GoalVersion } from './goalHistory';
+import type { PhaseLookup } from './cycleTracking';
+import { hasFood } from './healthRecords';
+import type { DayRecord } from './healthRecords';
+import { getExerciseAdjustment } from './workouts';
+
+/** What a day is judged on */
+export type AdherenceMetric = 'logged' | 'calories' | 'protein';
+
+/** Heatmap cell state */
+export type DayStatus = 'empty' | 'hit' | 'missed';
+
+export const ADHERENCE_METRIC_OPTIONS: { value: AdherenceMetric; label: string }[] = [
+  { value: 'logged', label: 'Logged' },
+  { value: 'calories', label: 'Calories' },
+  { value: 'protein', label: 'Protein' },
+];
+
+/** Allowed distance from the calorie goal, in percent */
+export const CALORIE_TOLERANCE_OPTIONS = [5, 10, 15, 20];
+export const DEFAULT_CALORIE_TOLERANCE = 10;
+
+/** Ranges offered for adherence percentages */
+export const ADHERENCE_RANGE_OPTIONS: { value: ChartRange; label: string }[] = [
+  { value: '7d', label: '7d' },
+  { value: '30d', label: '30d' },
+  { value: '90d', label: '90d' },
+  { value: 'all', label: 'All time' },
+];
+
+/** Heatmap span: about four months */
+export const CALENDAR_WEEKS = 17;
+
+/** Goals and history needed to judge a day */
+export interface AdherenceGoals {
+  history: GoalVersion[];
+  current: GoalValues;
+  /** Calorie tolerance in percent (e.g. 10 = ±10%) */
+  calorieTolerance: number;
+  /** Cycle phase per date, for phase calorie adjustments (omit if not tracking) */
+  phaseOf?: PhaseLookup | null;
+  /** Judge calories against goal + workout calories (profile.addExerciseCalories) */
+  addExerciseCalories?: boolean;
+}
+
+export interface StreakSummary {
+  /** Consecutive days ending today (or yesterday, if today isn't logged yet) */
+  current: number;
+  longest: number;
+}
+
+export interface AdherenceSummary {
+  hitDays: number;
+  loggedDays: number;
+  totalDays: number;
+  /**
+   * Hit days as a share of logged days (null if nothing logged).
+   * For "logged" it's logged days as a share of all days.
+   */
+  percent: number | null;
+}
+
+/**
+ * Hit/missed/empty for one date
+ */
+export function getDayStatus(
+  day: DayRecord | undefined,
+  metric: AdherenceMetric,
+  goals: AdherenceGoals
+): DayStatus {
+  if (!day || !hasFood(day)) return 'empty';
+  if (metric === 'logged') return 'hit';
+
+  const phase = goals.phaseOf?.(day.date) ?? null;
+  const dayGoals = resolveGoalsOnDate(goals.history, goals.current, day.date, day.isTrainingDay, phase).goals;
+
+  if (metric === 'protein') {
+    return day.protein >= dayGoals.protein ? 'hit' : 'missed';
+  }
+
+  // Same budget CaloriesSummary shows for the day
+  const budget = dayGoals.calories + getExerciseAdjustment(day, goals.addExerciseCalories ?? false);
+  const calories = calculateCalories(day.protein, day.carbs, day.fat);
+  const allowed = (budget * goals.calorieTolerance) / 100;
+  return Math.abs(calories - budget) <= allowed ? 'hit' : 'missed';
+}
+
+/**
+ * Status for every date from start to end (inclusive)
+ */
+export function getStatusByDate(
+  days: DayRecord[],
+  start: string,
+  end: string,
+  metric: AdherenceMetric,
+  goals: AdherenceGoals
+): Map<string, DayStatus> {
+  const byDate = new Map(days.map(day => [day.date, day]));
+  const statuses = new Map<string, DayStatus>();
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    statuses.set(date, getDayStatus(byDate.get(date), metric, goals));
+  }
+  return statuses;
+}
+
+/**
+ * Current and longest run of consecutive "hit" days
+ */
+export function calculateStreaks(
+  days: DayRecord[],
+  metric: AdherenceMetric,
+  goals: AdherenceGoals,
+  today: Date = new Date()
+): StreakSummary {
+  const end = toDateKey(today);
+  const loggedDates = days.filter(hasFood).map(day => day.date).sort();
+  if (loggedDates.length === 0) return { current: 0, longest: 0 };
+
+  const statuses = getStatusByDate(days, loggedDates[0], end, metric, goals);
+  let longest = 0;
+  let run = 0;
+  statuses.forEach(status => {
+    run = status === 'hit' ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  });
+
+  // Today doesn't break the streak until it's over
+  const yesterday = addDays(end, -1);
+  let current = 0;
+  let date = statuses.get(end) === 'hit' ? end : yesterday;
+  while (statuses.get(date) === 'hit') {
+    current++;
+    date = addDays(date, -1);
+  }
+
+  return { current, longest };
+}
+
+/**
+ * Hit days vs logged days over a range
+ */
+export function calculateAdherence(
+  days: DayRecord[],
+  range: ChartRange,
+  metric: AdherenceMetric,
+  goals: AdherenceGoals,
+  today: Date = new Date()
+): AdherenceSummary {
+  const bounds = getRangeBounds(range, null, today);
+  const firstLogged = days.filter(hasFood).map(day => day.date).sort()[0];
+  const start = bounds.start ?? firstLogged ?? bounds.end;
+
+  const statuses = Array.from(getStatusByDate(days, start, bounds.end, metric, goals).values());
+  const hitDays = statuses.filter(status => status === 'hit').length;
+  const loggedDays = statuses.filter(status => status !== 'empty').length;
+
+  const totalDays = daysBetween(start, bounds.end) + 1;
+  const percent = metric === 'logged'
+    ? Math.round((loggedDays / totalDays) * 100)
+    : loggedDays > 0 ? Math.round((hitDays / loggedDays) * 100) : null;
+
+  return { hitDays, loggedDays, totalDays, percent };
+}
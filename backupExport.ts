@@ -0,0 +1,147 @@
+/**
+ * backupExport - Per-day CSV and full JSON backup of the user's data
+ *
+ * TypeScript Concepts:
+ * - Column definitions as typed arrays
+ * - Versioned JSON formats
+ * - Blob downloads
+ */
+
+import { calculateCalories } from '../../context/AppContext';
+import { toDateKey } from './dateKeys';
+import type { DayRecord, HealthData } from './healthRecords';
+import { WEIGHT_UNITS, toWeightInputValue } from './units';
+import type { UnitSystem } from './units';
+import { getCaloriesBurned } from './workouts';
+import { getNapMinutes } from './sleep';
+
+/**
+ * Bump when the backup shape changes so imports can migrate
+ * (see migrateBackup in backupImport).
+ * 2: profile units/sex/activity/exercise calories, goal schedule and
+ *    history, symptom checklist and measurements
+ */
+export const BACKUP_VERSION = 2;
+
+/** Full-fidelity JSON backup */
+export interface HealthBackup extends HealthData {
+  app: 'healthlog';
+  version: number;
+  /** ISO timestamp */
+  exportedAt: string;
+}
+
+/** One CSV column: header and how to read it from a day */
+interface CsvColumn {
+  header: string;
+  value: (day: DayRecord) => string | number | boolean | null;
+}
+
+/** Columns that don't depend on the unit preference */
+const UNIT_FREE_COLUMNS: CsvColumn[] = [
+  { header: 'calories', value: (day) => calculateCalories(day.protein, day.carbs, day.fat) },
+  { header: 'protein_g', value: (day) => day.protein },
+  { header: 'carbs_g', value: (day) => day.carbs },
+  { header: 'fat_g', value: (day) => day.fat },
+  { header: 'sleep_hours', value: (day) => day.sleepHours },
+  { header: 'bedtime', value: (day) => day.bedtime },
+  { header: 'wake_time', value: (day) => day.wakeTime },
+  { header: 'sleep_quality', value: (day) => day.sleepQuality },
+  { header: 'nap_minutes', value: (day) => getNapMinutes(day) },
+  { header: 'steps', value: (day) => day.steps },
+  { header: 'energy', value: (day) => day.energy },
+  { header: 'hunger', value: (day) => day.hunger },
+  { header: 'motivation', value: (day) => day.motivation },
+  { header: 'period_day', value: (day) => day.isPeriodDay },
+  { header: 'flow', value: (day) => day.flow },
+  { header: 'symptoms', value: (day) => day.symptoms.join('; ') },
+  { header: 'notes', value: (day) => day.notes },
+  { header: 'training_day', value: (day) => day.isTrainingDay },
+  { header: 'food_entries', value: (day) => day.entries.length },
+  { header: 'workouts', value: (day) => day.workouts.length },
+  { header: 'exercise_calories', value: (day) => getCaloriesBurned(day) },
+];
+
+/**
+ * CSV columns, one per metric on the Log page.
+ * Weight is written in the user's unit; the header says which.
+ */
+export function getCsvColumns(unitSystem: UnitSystem): CsvColumn[] {
+  return [
+    { header: 'date', value: (day) => day.date },
+    {
+      header: `weight_${WEIGHT_UNITS[unitSystem]}`,
+      value: (day) => toWeightInputValue(day.weight, unitSystem),
+    },
+    ...UNIT_FREE_COLUMNS,
+  ];
+}
+
+/** Leading characters spreadsheets treat as the start of a formula */
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+/**
+ * Quote a CSV cell when it contains a comma, quote or newline.
+ * Text that would start a formula (notes, symptoms) gets a leading
+ * apostrophe so spreadsheets show it as text instead of running it.
+ */
+export function escapeCsvCell(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per date, oldest first
+ */
+export function buildDailyCsv(days: DayRecord[], unitSystem: UnitSystem = 'imperial'): string {
+  const columns = getCsvColumns(unitSystem);
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const header = columns.map(column => column.header).join(',');
+  const rows = sorted.map(day =>
+    columns.map(column => escapeCsvCell(column.value(day))).join(',')
+  );
+  return [header, ...rows].join('\n') + '\n';
+}
+
+/**
+ * Wrap the user's data in a versioned backup object
+ */
+export function buildBackup(data: HealthData, now: Date = new Date()): HealthBackup {
+  return {
+    app: 'healthlog',
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    ...data,
+    days: [...data.days].sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+/**
+ * Backup as pretty-printed JSON
+ */
+export function buildBackupJson(data: HealthData, now: Date = new Date()): string {
+  return JSON.stringify(buildBackup(data, now), null, 2);
+}
+
+/**
+ * Filename with today's date, e.g. "healthlog-2024-03-14.csv"
+ */
+export function getExportFilename(extension: 'csv' | 'json', now: Date = new Date()): string {
+  return `healthlog-${toDateKey(now)}.${extension}`;
+}
+
+/**
+ * Trigger a browser download of text content
+ */
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
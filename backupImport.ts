@@ -0,0 +1,733 @@
+/**
+ * backupImport - Parse backups and other trackers' CSVs, preview and merge
+ *
+ * Supported sources:
+ * - This app's JSON backup (see backupExport)
+ * - Any CSV with a user-chosen column mapping
+ * - MyFitnessPal-style nutrition CSV (one row per meal, summed per day)
+ * - Apple Health-style weight CSV (kg converted to lbs)
+ *
+ * TypeScript Concepts:
+ * - Discriminated unions for import sources
+ * - Partial records for sparse incoming data
+ * - Pure merge functions (no side effects until the caller saves)
+ */
+
+import type { Rating } from '../../context/AppContext';
+import { BACKUP_VERSION } from './backupExport';
+import type { HealthBackup } from './backupExport';
+import {
+  DAY_METRIC_FIELDS,
+  DAY_METRIC_LABELS,
+  isSameFieldValue,
+  normalizeDayRecord,
+  replacesWeighIn,
+} from './healthRecords';
+import type { DayMetricField, DayRecord, GoalSettings, HealthData } from './healthRecords';
+import { parseDateValue } from './dateKeys';
+import { fromDisplayWeight } from './units';
+import { normalizeGoalSchedule } from './goalSchedule';
+import { normalizeGoalHistory } from './goalHistory';
+import { FLOW_OPTIONS, normalizeSymptomChecklist } from './cycleSymptoms';
+import type { FlowLevel } from './cycleSymptoms';
+
+/** Where the file came from */
+export type ImportFormat = 'backup' | 'csv' | 'myfitnesspal' | 'apple-health';
+
+export const IMPORT_FORMAT_OPTIONS: { value: ImportFormat; label: string }[] = [
+  { value: 'backup', label: 'HealthLog JSON backup' },
+  { value: 'csv', label: 'CSV (choose columns)' },
+  { value: 'myfitnesspal', label: 'MyFitnessPal nutrition CSV' },
+  { value: 'apple-health', label: 'Apple Health weight CSV' },
+];
+
+/** Day fields a CSV column can map to */
+export type ImportField = 'date' | DayMetricField;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: 'Date',
+  ...DAY_METRIC_LABELS,
+};
+
+/** CSV header for each field (null = not imported) */
+export type ColumnMapping = Record<ImportField, string | null>;
+
+/** Incoming data for one date; absent fields were not in the file */
+export type ImportedDay = Pick<DayRecord, 'date'> & Partial<Omit<DayRecord, 'date'>>;
+
+/** Parsed file, before it touches existing data */
+export interface ImportParseResult {
+  days: ImportedDay[];
+  /** Goals/profile/cycle/foods (JSON backup only) */
+  settings: Omit<HealthData, 'days'> | null;
+  /** Rows that were skipped and why */
+  warnings: string[];
+}
+
+/** How to handle a date that already has data */
+export type ConflictStrategy = 'skip' | 'overwrite' | 'merge';
+
+export const CONFLICT_STRATEGY_OPTIONS: { value: ConflictStrategy; label: string; hint: string }[] = [
+  { value: 'skip', label: 'Skip', hint: 'Keep existing days as they are' },
+  { value: 'merge', label: 'Merge', hint: 'Only fill in fields that are empty' },
+  { value: 'overwrite', label: 'Overwrite', hint: 'Replace existing values with imported ones; imported macro totals replace the food log' },
+];
+
+/** A date where the file disagrees with what's already logged */
+export interface ImportConflict {
+  date: string;
+  fields: DayMetricField[];
+}
+
+/** Dry-run summary shown before importing */
+export interface ImportPreview {
+  newDates: string[];
+  conflicts: ImportConflict[];
+  /** Dates already logged with identical or no overlapping values */
+  unchangedDates: string[];
+}
+
+/** Header aliases used to guess a column mapping */
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'day', 'startdate', 'start date'],
+  weight: ['weight', 'weight_lbs', 'weight (lb)', 'weight (lbs)', 'weight_kg', 'weight (kg)', 'body mass', 'bodymass'],
+  protein: ['protein', 'protein_g', 'protein (g)'],
+  carbs: ['carbs', 'carbs_g', 'carbohydrates', 'carbohydrates (g)', 'carbs (g)'],
+  fat: ['fat', 'fat_g', 'fat (g)', 'total fat'],
+  sleepHours: ['sleep', 'sleep_hours', 'sleep (hours)', 'hours slept'],
+  bedtime: ['bedtime', 'bed time', 'bed_time'],
+  wakeTime: ['wake time', 'wake_time', 'waketime', 'wake up'],
+  sleepQuality: ['sleep quality', 'sleep_quality'],
+  steps: ['steps', 'step count', 'stepcount'],
+  energy: ['energy'],
+  hunger: ['hunger'],
+  motivation: ['motivation'],
+  isPeriodDay: ['period', 'period_day', 'period day'],
+  flow: ['flow', 'period flow', 'flow_level'],
+  symptoms: ['symptoms', 'symptom'],
+  notes: ['notes', 'note', 'comment'],
+  isTrainingDay: ['training', 'training_day', 'training day', 'workout day'],
+};
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * Sortable "HH:MM:SS" from a timestamp cell ("2024-01-05 07:32:10 -0800"),
+ * as written in the file; empty when the cell has no time
+ */
+function getTimeOfDay(value: string): string {
+  const match = value.match(/\d{1,2}:\d{2}(?::\d{2})?/);
+  if (!match) return '';
+  const [hours, minutes, seconds = '00'] = match[0].split(':');
+  return `${hours.padStart(2, '0')}:${minutes}:${seconds}`;
+}
+
+/**
+ * Parse a number cell ("1,234" allowed); blank or invalid -> null
+ */
+function parseNumberCell(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const text = value.replace(/,/g, '').trim();
+  if (text === '') return null;
+  const parsed = parseFloat(text);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parse a 1-5 rating cell
+ */
+function parseRatingCell(value: string | undefined): Rating | null {
+  const parsed = parseNumberCell(value);
+  if (parsed === null) return null;
+  const rounded = Math.round(parsed);
+  return rounded >= 1 && rounded <= 5 ? (rounded as Rating) : null;
+}
+
+/**
+ * Parse a yes/no cell
+ */
+function parseBooleanCell(value: string | undefined): boolean | null {
+  const text = value?.trim().toLowerCase();
+  if (!text) return null;
+  if (['true', 'yes', 'y', '1'].includes(text)) return true;
+  if (['false', 'no', 'n', '0'].includes(text)) return false;
+  return null;
+}
+
+/**
+ * Parse a clock time cell ("23:30" or "11:30 PM") to "HH:MM"
+ */
+function parseTimeCell(value: string | undefined): string | null {
+  const match = value?.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const period = match[3]?.toLowerCase();
+  if (period === 'pm' && hours < 12) hours += 12;
+  if (period === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a flow cell ("Medium", "heavy")
+ */
+function parseFlowCell(value: string | undefined): FlowLevel | null {
+  const text = value?.trim().toLowerCase();
+  return FLOW_OPTIONS.find(option => option.value === text)?.value ?? null;
+}
+
+/**
+ * Parse a free-text cell, dropping the apostrophe our CSV export adds
+ * in front of text that would start a formula
+ */
+function parseTextCell(value: string | undefined): string {
+  const text = value?.trim() ?? '';
+  return /^'[=+\-@]/.test(text) ? text.slice(1) : text;
+}
+
+/**
+ * Parse a symptoms cell ("Cramps; Bloating") into labels
+ */
+function parseSymptomsCell(value: string | undefined): string[] | null {
+  const symptoms = parseTextCell(value).split(/[;,|]/).map(symptom => symptom.trim()).filter(Boolean);
+  return symptoms.length > 0 ? symptoms : null;
+}
+
+/**
+ * Whether a weight header is in kg, e.g. "weight_kg" or "Body Mass (kg)"
+ */
+function isKgHeader(header: string): boolean {
+  return /(^|[^a-z])kg([^a-z]|$)/i.test(header);
+}
+
+/**
+ * Guess which header maps to each field
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const mapping = {} as ColumnMapping;
+
+  (Object.keys(FIELD_ALIASES) as ImportField[]).forEach(field => {
+    const index = normalized.findIndex(h => FIELD_ALIASES[field].includes(h));
+    mapping[field] = index >= 0 ? headers[index] : null;
+  });
+
+  return mapping;
+}
+
+/**
+ * Combine rows for the same date (later rows win per field)
+ */
+function combineByDate(days: ImportedDay[]): ImportedDay[] {
+  const byDate = new Map<string, ImportedDay>();
+  days.forEach(day => {
+    byDate.set(day.date, { ...byDate.get(day.date), ...day });
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Parse a CSV using an explicit column mapping
+ */
+export function parseMappedCsv(text: string, mapping: ColumnMapping): ImportParseResult {
+  const [headers, ...rows] = parseCsv(text);
+  const warnings: string[] = [];
+
+  if (!headers || !mapping.date) {
+    return { days: [], settings: null, warnings: ['Choose which column holds the date'] };
+  }
+
+  const columnIndex = (field: ImportField) => {
+    const header = mapping[field];
+    return header ? headers.indexOf(header) : -1;
+  };
+  const dateIndex = columnIndex('date');
+  const weightUnits = mapping.weight && isKgHeader(mapping.weight) ? 'metric' : 'imperial';
+
+  const days: ImportedDay[] = [];
+  rows.forEach((row, rowIndex) => {
+    const date = parseDateValue(row[dateIndex] ?? '');
+    if (!date) {
+      warnings.push(`Row ${rowIndex + 2}: unrecognized date "${row[dateIndex] ?? ''}"`);
+      return;
+    }
+
+    const day: ImportedDay = { date };
+    DAY_METRIC_FIELDS.forEach(field => {
+      const index = columnIndex(field);
+      if (index < 0) return;
+      const cell = row[index];
+
+      if (field === 'energy' || field === 'hunger' || field === 'motivation' || field === 'sleepQuality') {
+        const rating = parseRatingCell(cell);
+        if (rating !== null) day[field] = rating;
+      } else if (field === 'isPeriodDay' || field === 'isTrainingDay') {
+        const flag = parseBooleanCell(cell);
+        if (flag !== null) day[field] = flag;
+      } else if (field === 'bedtime' || field === 'wakeTime') {
+        const time = parseTimeCell(cell);
+        if (time !== null) day[field] = time;
+      } else if (field === 'flow') {
+        const flow = parseFlowCell(cell);
+        if (flow !== null) day.flow = flow;
+      } else if (field === 'symptoms') {
+        const symptoms = parseSymptomsCell(cell);
+        if (symptoms !== null) day.symptoms = symptoms;
+      } else if (field === 'notes') {
+        const note = parseTextCell(cell);
+        if (note) day.notes = note;
+      } else if (field === 'weight') {
+        const number = parseNumberCell(cell);
+        if (number !== null) day.weight = fromDisplayWeight(number, weightUnits);
+      } else {
+        const number = parseNumberCell(cell);
+        if (number !== null) day[field] = number;
+      }
+    });
+    days.push(day);
+  });
+
+  return { days: combineByDate(days), settings: null, warnings };
+}
+
+/**
+ * MyFitnessPal nutrition export: one row per meal, so macros are summed per date
+ */
+export function parseMyFitnessPalCsv(text: string): ImportParseResult {
+  const [headers, ...rows] = parseCsv(text);
+  const warnings: string[] = [];
+  const find = (names: string[]) =>
+    headers ? headers.findIndex(h => names.includes(h.trim().toLowerCase())) : -1;
+
+  const dateIndex = find(['date']);
+  const proteinIndex = find(['protein (g)', 'protein']);
+  const carbsIndex = find(['carbohydrates (g)', 'carbs (g)', 'carbohydrates']);
+  const fatIndex = find(['fat (g)', 'fat']);
+
+  if (dateIndex < 0 || (proteinIndex < 0 && carbsIndex < 0 && fatIndex < 0)) {
+    return { days: [], settings: null, warnings: ['Missing Date or macro columns'] };
+  }
+
+  // Only the macros the file has a column for; the rest stay unset
+  const macroColumns = ([
+    ['protein', proteinIndex],
+    ['carbs', carbsIndex],
+    ['fat', fatIndex],
+  ] as const).filter(([, index]) => index >= 0);
+
+  const totals = new Map<string, ImportedDay>();
+  rows.forEach((row, rowIndex) => {
+    const date = parseDateValue(row[dateIndex] ?? '');
+    if (!date) {
+      warnings.push(`Row ${rowIndex + 2}: unrecognized date "${row[dateIndex] ?? ''}"`);
+      return;
+    }
+
+    const day = totals.get(date) ?? { date };
+    macroColumns.forEach(([field, index]) => {
+      day[field] = (day[field] ?? 0) + (parseNumberCell(row[index]) ?? 0);
+    });
+    totals.set(date, day);
+  });
+
+  const days = Array.from(totals.values())
+    .map(day => {
+      const rounded = { ...day };
+      macroColumns.forEach(([field]) => {
+        rounded[field] = Math.round((day[field] ?? 0) * 10) / 10;
+      });
+      return rounded;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { days, settings: null, warnings };
+}
+
+/**
+ * Apple Health-style weight export. Reads "Date"/"startDate" and a weight
+ * column, converting kg to lbs when the header or unit column says kg.
+ * Multiple readings on one day keep the earliest (morning) weigh-in.
+ */
+export function parseAppleHealthWeightCsv(text: string): ImportParseResult {
+  const [headers, ...rows] = parseCsv(text);
+  const warnings: string[] = [];
+  const lower = headers ? headers.map(h => h.trim().toLowerCase()) : [];
+
+  const dateIndex = lower.findIndex(h => ['date', 'startdate', 'start date', 'creationdate'].includes(h));
+  const weightIndex = lower.findIndex(h => h.startsWith('weight') || h.startsWith('body mass') || h === 'value');
+  const unitIndex = lower.findIndex(h => h === 'unit');
+
+  if (dateIndex < 0 || weightIndex < 0) {
+    return { days: [], settings: null, warnings: ['Missing date or weight column'] };
+  }
+
+  const headerIsKg = isKgHeader(lower[weightIndex]);
+  const byDate = new Map<string, ImportedDay>();
+  const timeByDate = new Map<string, string>();
+
+  rows.forEach((row, rowIndex) => {
+    const date = parseDateValue(row[dateIndex] ?? '');
+    const value = parseNumberCell(row[weightIndex]);
+    if (!date || value === null) {
+      warnings.push(`Row ${rowIndex + 2}: missing date or weight`);
+      return;
+    }
+
+    // Exports aren't always in time order
+    const time = getTimeOfDay(row[dateIndex] ?? '');
+    if (!replacesWeighIn(time, timeByDate.get(date) ?? null)) return;
+
+    const isKg = headerIsKg || (unitIndex >= 0 && row[unitIndex]?.trim().toLowerCase() === 'kg');
+    byDate.set(date, { date, weight: fromDisplayWeight(value, isKg ? 'metric' : 'imperial') });
+    timeByDate.set(date, time);
+  });
+
+  return {
+    days: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    settings: null,
+    warnings,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Goal fields a backup must carry as numbers */
+const BACKUP_GOAL_FIELDS: (keyof GoalSettings)[] = ['calories', 'protein', 'carbs', 'fat', 'steps', 'sleep'];
+
+/**
+ * What's wrong with a backup's settings sections, or null if they're usable.
+ * Fields a v1 backup may be missing are filled in by migrateBackup.
+ */
+function findBackupProblem(backup: HealthBackup): string | null {
+  const { goals, profile, cycleSettings } = backup as Partial<HealthBackup>;
+
+  if (!isObject(goals)) return 'Backup is missing its goals';
+  const badGoal = BACKUP_GOAL_FIELDS.find(field => typeof goals[field] !== 'number');
+  if (badGoal) return `Backup goal "${badGoal}" is not a number`;
+
+  if (!isObject(profile)) return 'Backup is missing its profile';
+  if (profile.sex != null && profile.sex !== 'female' && profile.sex !== 'male') {
+    return `Backup profile has an unknown sex "${profile.sex}"`;
+  }
+  if (profile.unitSystem != null && profile.unitSystem !== 'imperial' && profile.unitSystem !== 'metric') {
+    return `Backup profile has an unknown unit system "${profile.unitSystem}"`;
+  }
+
+  if (!isObject(cycleSettings)) return 'Backup is missing its cycle settings';
+
+  const lists = { foods: backup.foods, measurements: backup.measurements, goalHistory: backup.goalHistory };
+  const badList = Object.entries(lists).find(([, value]) => value != null && !Array.isArray(value));
+  if (badList) return `Backup ${badList[0]} is not a list`;
+
+  return null;
+}
+
+/**
+ * Bring a backup up to BACKUP_VERSION. Settings lists are normalized
+ * whatever the version, since a hand-edited or partial backup can carry
+ * bad entries in any of them. Days are filled in separately by
+ * normalizeDayRecord.
+ */
+function migrateBackup(backup: HealthBackup): HealthBackup {
+  // v1 backups may predate these settings
+  const profile = backup.profile;
+  return {
+    ...backup,
+    version: BACKUP_VERSION,
+    goalSchedule: normalizeGoalSchedule(backup.goalSchedule),
+    goalHistory: normalizeGoalHistory(backup.goalHistory),
+    profile: {
+      ...profile,
+      sex: profile.sex ?? null,
+      activityLevel: profile.activityLevel ?? null,
+      bodyFatPercent: profile.bodyFatPercent ?? null,
+      unitSystem: profile.unitSystem ?? 'imperial',
+      addExerciseCalories: profile.addExerciseCalories ?? false,
+    },
+    symptomChecklist: normalizeSymptomChecklist(backup.symptomChecklist),
+    measurements: backup.measurements ?? [],
+  };
+}
+
+/**
+ * This app's JSON backup
+ */
+export function parseBackupJson(text: string): ImportParseResult {
+  let backup: HealthBackup;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    return { days: [], settings: null, warnings: ['File is not valid JSON'] };
+  }
+
+  if (backup?.app !== 'healthlog' || !Array.isArray(backup.days)) {
+    return { days: [], settings: null, warnings: ['Not a HealthLog backup file'] };
+  }
+  if (typeof backup.version !== 'number' || !Number.isFinite(backup.version)) {
+    return { days: [], settings: null, warnings: ['Backup is missing its version number'] };
+  }
+  if (backup.version > BACKUP_VERSION) {
+    return { days: [], settings: null, warnings: ['Backup is from a newer version of the app'] };
+  }
+  const problem = findBackupProblem(backup);
+  if (problem) {
+    return { days: [], settings: null, warnings: [problem] };
+  }
+  backup = migrateBackup(backup);
+
+  const warnings: string[] = [];
+  const days = backup.days
+    .filter(day => {
+      if (!isObject(day)) {
+        warnings.push('Skipped a day that is not an object');
+        return false;
+      }
+      const valid = parseDateValue(day.date ?? '') === day.date;
+      if (!valid) warnings.push(`Skipped day with invalid date "${day.date}"`);
+      return valid;
+    })
+    .map(normalizeDayRecord);
+
+  return {
+    days,
+    settings: {
+      goals: backup.goals,
+      goalSchedule: backup.goalSchedule,
+      goalHistory: backup.goalHistory,
+      profile: backup.profile,
+      cycleSettings: backup.cycleSettings,
+      symptomChecklist: backup.symptomChecklist,
+      measurements: backup.measurements,
+      foods: backup.foods ?? [],
+    },
+    warnings,
+  };
+}
+
+/**
+ * Parse a file in the chosen format
+ */
+export function parseImportFile(
+  format: ImportFormat,
+  text: string,
+  mapping: ColumnMapping | null = null
+): ImportParseResult {
+  switch (format) {
+    case 'backup':
+      return parseBackupJson(text);
+    case 'myfitnesspal':
+      return parseMyFitnessPalCsv(text);
+    case 'apple-health':
+      return parseAppleHealthWeightCsv(text);
+    case 'csv':
+      return parseMappedCsv(text, mapping ?? guessColumnMapping(parseCsv(text)[0] ?? []));
+  }
+}
+
+/**
+ * Best guess at a file's format from its name and first line
+ */
+export function detectImportFormat(filename: string, text: string): ImportFormat {
+  if (filename.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{')) {
+    return 'backup';
+  }
+
+  const header = (parseCsv(text.split('\n')[0] ?? '')[0] ?? []).map(h => h.trim().toLowerCase());
+  if (header.includes('meal') && header.some(h => h.startsWith('carbohydrates'))) {
+    return 'myfitnesspal';
+  }
+  if (header.some(h => h.startsWith('weight') || h.startsWith('body mass')) && header.length <= 4) {
+    return 'apple-health';
+  }
+  return 'csv';
+}
+
+/**
+ * Whether an existing day has a meaningful value for a field
+ */
+function hasValue(day: DayRecord, field: DayMetricField): boolean {
+  const value = day[field];
+  if (value === null) return false;
+  if (field === 'protein' || field === 'carbs' || field === 'fat') {
+    return value !== 0;
+  }
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+/**
+ * Dry run: which dates are new, which conflict, which change nothing
+ */
+export function previewImport(existing: DayRecord[], incoming: ImportedDay[]): ImportPreview {
+  const existingByDate = new Map(existing.map(day => [day.date, day]));
+  const preview: ImportPreview = { newDates: [], conflicts: [], unchangedDates: [] };
+
+  incoming.forEach(day => {
+    const current = existingByDate.get(day.date);
+    if (!current) {
+      preview.newDates.push(day.date);
+      return;
+    }
+
+    const fields = DAY_METRIC_FIELDS.filter(field =>
+      day[field] !== undefined && hasValue(current, field) && !isSameFieldValue(day[field]!, current[field])
+    );
+    if (fields.length > 0) {
+      preview.conflicts.push({ date: day.date, fields });
+    } else {
+      preview.unchangedDates.push(day.date);
+    }
+  });
+
+  return preview;
+}
+
+/** Day lists that overwrite replaces wholesale */
+type ItemListField = 'entries' | 'workouts' | 'naps';
+
+/**
+ * Replace one of a day's item lists. Ids it drops go into deletedEntryIds
+ * so a sync merge doesn't bring them back; ids it restores come out.
+ * Returns false (and leaves the day alone) when the lists already match.
+ */
+function replaceItems<F extends ItemListField>(next: DayRecord, field: F, items: DayRecord[F]): boolean {
+  const current = next[field];
+  if (JSON.stringify(current) === JSON.stringify(items)) return false;
+
+  const kept = new Set(items.map(item => item.id));
+  const dropped = current.filter(item => !kept.has(item.id)).map(item => item.id);
+  next.deletedEntryIds = [...next.deletedEntryIds.filter(id => !kept.has(id)), ...dropped];
+  next[field] = items;
+  return true;
+}
+
+/**
+ * Apply incoming days with a conflict strategy.
+ * Returns only the days that need saving.
+ */
+export function applyImport(
+  existing: DayRecord[],
+  incoming: ImportedDay[],
+  strategy: ConflictStrategy,
+  now: Date = new Date()
+): DayRecord[] {
+  const existingByDate = new Map(existing.map(day => [day.date, day]));
+  const changed: DayRecord[] = [];
+  const importedAt = now.toISOString();
+
+  incoming.forEach(day => {
+    const current = existingByDate.get(day.date);
+
+    if (!current) {
+      const fieldUpdatedAt = { ...day.fieldUpdatedAt };
+      DAY_METRIC_FIELDS.forEach(field => {
+        if (day[field] !== undefined && !fieldUpdatedAt[field]) fieldUpdatedAt[field] = importedAt;
+      });
+      changed.push(normalizeDayRecord({ ...day, fieldUpdatedAt }));
+      return;
+    }
+    if (strategy === 'skip') return;
+
+    const next: DayRecord = {
+      ...current,
+      fieldUpdatedAt: { ...current.fieldUpdatedAt },
+      fieldSources: { ...current.fieldSources },
+    };
+    let didChange = false;
+    let didReplaceMacros = false;
+    DAY_METRIC_FIELDS.forEach(field => {
+      const value = day[field];
+      if (value === undefined || isSameFieldValue(value, current[field])) return;
+      if (strategy === 'merge' && hasValue(current, field)) return;
+      (next[field] as DayRecord[DayMetricField]) = value;
+      next.fieldUpdatedAt[field] = importedAt;
+      // Backups carry their sync sources; other files count as manual entries
+      const source = day.fieldSources?.[field];
+      if (source) {
+        next.fieldSources[field] = source;
+      } else {
+        delete next.fieldSources[field];
+      }
+      didChange = true;
+      if (field === 'protein' || field === 'carbs' || field === 'fat') didReplaceMacros = true;
+    });
+
+    // Itemized entries only come from backups; overwrite replaces them.
+    // Macro totals from a file without entries (e.g. MyFitnessPal) replace
+    // the food log too, so the entries can't disagree with the totals.
+    if (day.entries && strategy === 'overwrite') {
+      if (replaceItems(next, 'entries', day.entries)) didChange = true;
+    } else if (!day.entries && strategy === 'overwrite' && didReplaceMacros && current.entries.length > 0) {
+      next.entries = [];
+      // Record the deletions so a sync merge doesn't bring the entries back
+      next.deletedEntryIds = [...current.deletedEntryIds, ...current.entries.map(entry => entry.id)];
+    } else if (day.entries && current.entries.length === 0 && day.entries.length > 0) {
+      next.entries = day.entries;
+      didChange = true;
+    }
+
+    // Same for workouts and naps
+    if (day.workouts && strategy === 'overwrite') {
+      if (replaceItems(next, 'workouts', day.workouts)) didChange = true;
+    } else if (day.workouts && current.workouts.length === 0 && day.workouts.length > 0) {
+      next.workouts = day.workouts;
+      didChange = true;
+    }
+    if (day.naps && strategy === 'overwrite') {
+      if (replaceItems(next, 'naps', day.naps)) didChange = true;
+    } else if (day.naps && current.naps.length === 0 && day.naps.length > 0) {
+      next.naps = day.naps;
+      didChange = true;
+    }
+
+    if (didChange) changed.push(next);
+  });
+
+  return changed;
+}
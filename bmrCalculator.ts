@@ -0,0 +1,138 @@
+/**
+ * bmrCalculator - BMR, TDEE and macro targets from profile data
+ *
+ * BMR uses Katch-McArdle when body fat is known (it works from lean
+ * mass), otherwise Mifflin-St Jeor.
+ *
+ * TypeScript Concepts:
+ * - Record lookup tables keyed by union types
+ * - Narrowing nullable profile fields
+ */
+
+import type { ActivityLevel, BiologicalSex, GoalSettings, ProfileSettings } from './healthRecords';
+import { CM_PER_INCH, LBS_PER_KG, toTotalInches } from './units';
+
+/** What the targets are for */
+export type GoalMode = 'cut' | 'maintain' | 'bulk';
+
+export type BmrFormula = 'mifflin-st-jeor' | 'katch-mcardle';
+
+/** Calorie and macro targets GoalEditor can save */
+export type MacroGoals = Pick<GoalSettings, 'calories' | 'protein' | 'carbs' | 'fat'>;
+
+export interface GoalCalculation extends MacroGoals {
+  bmr: number;
+  formula: BmrFormula;
+  /** BMR x activity multiplier */
+  maintenance: number;
+}
+
+export const ACTIVITY_LEVEL_OPTIONS: { value: ActivityLevel; label: string; multiplier: number }[] = [
+  { value: 'sedentary', label: 'Sedentary (desk job)', multiplier: 1.2 },
+  { value: 'light', label: 'Light (1-3 workouts/wk)', multiplier: 1.375 },
+  { value: 'moderate', label: 'Moderate (3-5 workouts/wk)', multiplier: 1.55 },
+  { value: 'active', label: 'Active (6-7 workouts/wk)', multiplier: 1.725 },
+  { value: 'very-active', label: 'Very active (physical job)', multiplier: 1.9 },
+];
+
+export const SEX_OPTIONS: { value: BiologicalSex; label: string }[] = [
+  { value: 'female', label: 'Female' },
+  { value: 'male', label: 'Male' },
+];
+
+export const GOAL_MODE_OPTIONS: { value: GoalMode; label: string }[] = [
+  { value: 'cut', label: 'Cut' },
+  { value: 'maintain', label: 'Maintain' },
+  { value: 'bulk', label: 'Bulk' },
+];
+
+/** Calorie adjustment vs maintenance per mode */
+const MODE_CALORIE_FACTOR: Record<GoalMode, number> = {
+  cut: 0.8,
+  maintain: 1,
+  bulk: 1.1,
+};
+
+/** Protein grams per lb of body weight (per lb of lean mass when body fat is known) */
+const MODE_PROTEIN_PER_LB: Record<GoalMode, { bodyWeight: number; leanMass: number }> = {
+  cut: { bodyWeight: 1.0, leanMass: 1.2 },
+  maintain: { bodyWeight: 0.8, leanMass: 1.0 },
+  bulk: { bodyWeight: 0.8, leanMass: 1.0 },
+};
+
+/** Share of calories from fat */
+const FAT_CALORIE_SHARE = 0.25;
+
+/**
+ * Profile values the calculator can't work without
+ */
+export function getMissingProfileFields(profile: ProfileSettings): string[] {
+  const missing: string[] = [];
+  if (!profile.weight) missing.push('weight');
+  if (!profile.bodyFatPercent) {
+    if (!profile.age) missing.push('age');
+    if (!profile.height || (profile.height.feet === 0 && profile.height.inches === 0)) missing.push('height');
+    if (!profile.sex) missing.push('sex');
+  }
+  if (!profile.activityLevel) missing.push('activity level');
+  return missing;
+}
+
+/**
+ * Mifflin-St Jeor BMR
+ */
+export function mifflinStJeor(weightLbs: number, heightInches: number, age: number, sex: BiologicalSex): number {
+  const kg = weightLbs / LBS_PER_KG;
+  const cm = heightInches * CM_PER_INCH;
+  return 10 * kg + 6.25 * cm - 5 * age + (sex === 'male' ? 5 : -161);
+}
+
+/**
+ * Katch-McArdle BMR (from lean body mass)
+ */
+export function katchMcArdle(weightLbs: number, bodyFatPercent: number): number {
+  const leanKg = (weightLbs / LBS_PER_KG) * (1 - bodyFatPercent / 100);
+  return 370 + 21.6 * leanKg;
+}
+
+/**
+ * Calorie and macro targets for a mode, or null if the profile is incomplete
+ */
+export function calculateGoals(profile: ProfileSettings, mode: GoalMode): GoalCalculation | null {
+  if (getMissingProfileFields(profile).length > 0) return null;
+
+  const weight = profile.weight as number;
+  const activity = ACTIVITY_LEVEL_OPTIONS.find(option => option.value === profile.activityLevel);
+  if (!activity) return null;
+
+  const bodyFat = profile.bodyFatPercent;
+  const formula: BmrFormula = bodyFat ? 'katch-mcardle' : 'mifflin-st-jeor';
+  const bmr = bodyFat
+    ? katchMcArdle(weight, bodyFat)
+    : mifflinStJeor(
+        weight,
+        toTotalInches(profile.height!),
+        profile.age as number,
+        profile.sex as BiologicalSex
+      );
+
+  const maintenance = bmr * activity.multiplier;
+  const calories = Math.round((maintenance * MODE_CALORIE_FACTOR[mode]) / 10) * 10;
+
+  const proteinBasis = bodyFat
+    ? weight * (1 - bodyFat / 100) * MODE_PROTEIN_PER_LB[mode].leanMass
+    : weight * MODE_PROTEIN_PER_LB[mode].bodyWeight;
+  const protein = Math.round(proteinBasis);
+  const fat = Math.round((calories * FAT_CALORIE_SHARE) / 9);
+  const carbs = Math.max(0, Math.round((calories - protein * 4 - fat * 9) / 4));
+
+  return {
+    bmr: Math.round(bmr),
+    formula,
+    maintenance: Math.round(maintenance),
+    calories,
+    protein,
+    carbs,
+    fat,
+  };
+}
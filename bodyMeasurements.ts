@@ -0,0 +1,193 @@
+/**
+ * bodyMeasurements - Tape measurements, body-fat % and body composition
+ *
+ * Measurements are logged every week or two rather than daily, so they
+ * live in their own list instead of on DayRecord. Lengths are stored in
+ * inches like height; units.ts converts for display.
+ *
+ * Body fat is either typed in (scale, calipers, DEXA) or estimated with
+ * the U.S. Navy circumference method, which needs height, neck and
+ * waist, plus hips for women. Lean and fat mass come from the weight
+ * logged closest to the measurement date.
+ *
+ * TypeScript Concepts:
+ * - Partial<Record<>> for optional measurement sites
+ * - Discriminated source on a derived value
+ */
+
+import { daysBetween, formatShortDate } from './dateKeys';
+import type { BiologicalSex, DayRecord, ProfileSettings } from './healthRecords';
+import { roundTo, toTotalInches } from './units';
+
+/** Where the tape goes */
+export type MeasurementSite = 'waist' | 'hips' | 'chest' | 'arms' | 'thighs' | 'neck';
+
+export const MEASUREMENT_SITE_OPTIONS: { value: MeasurementSite; label: string }[] = [
+  { value: 'waist', label: 'Waist' },
+  { value: 'hips', label: 'Hips' },
+  { value: 'chest', label: 'Chest' },
+  { value: 'arms', label: 'Arms' },
+  { value: 'thighs', label: 'Thighs' },
+  { value: 'neck', label: 'Neck' },
+];
+
+/** One measuring session */
+export interface MeasurementEntry {
+  id: string;
+  /** "YYYY-MM-DD" */
+  date: string;
+  /** Inches; sites not measured are left out */
+  sites: Partial<Record<MeasurementSite, number>>;
+  /** Body fat % typed in by the user (null if not given) */
+  bodyFatPercent: number | null;
+  /** When the entry was logged (ISO timestamp) */
+  loggedAt: string;
+  /** When the entry was last edited (ISO timestamp, null if never) */
+  editedAt: string | null;
+}
+
+export type BodyFatSource = 'entered' | 'navy';
+
+export interface BodyFatEstimate {
+  percent: number;
+  source: BodyFatSource;
+}
+
+/** Weight split into fat and everything else */
+export interface BodyComposition {
+  /** Lbs */
+  fatMass: number;
+  /** Lbs */
+  leanMass: number;
+}
+
+/** Chart series besides the measurement sites */
+export type CompositionMetric = 'bodyFat' | 'leanMass' | 'fatMass';
+
+/** Chart point for one measuring session: each site (inches) and each CompositionMetric */
+export interface CompositionPoint {
+  date: string; // "MM/DD"
+  fullDate: string; // "YYYY-MM-DD"
+  [key: string]: number | string | null;
+}
+
+/** How far from a measurement a logged weight can be to count */
+export const WEIGHT_MATCH_DAYS = 3;
+
+/** Navy estimates outside this range mean a typo in the inputs */
+const PLAUSIBLE_BODY_FAT: [number, number] = [2, 60];
+
+/**
+ * Build a measurement entry
+ */
+export function createMeasurement(
+  date: string,
+  sites: Partial<Record<MeasurementSite, number>>,
+  bodyFatPercent: number | null,
+  now: Date = new Date()
+): Omit<MeasurementEntry, 'id'> {
+  return {
+    date,
+    sites,
+    bodyFatPercent,
+    loggedAt: now.toISOString(),
+    editedAt: null,
+  };
+}
+
+/**
+ * U.S. Navy body-fat % from circumferences in inches.
+ * Men: waist and neck; women also need hips. Null if an input is
+ * missing or the result isn't plausible.
+ */
+export function estimateNavyBodyFat(
+  sex: BiologicalSex,
+  heightInches: number,
+  sites: Partial<Record<MeasurementSite, number>>
+): number | null {
+  const { waist, neck, hips } = sites;
+  if (!waist || !neck || heightInches <= 0) return null;
+
+  let percent: number;
+  if (sex === 'male') {
+    if (waist <= neck) return null;
+    percent = 86.01 * Math.log10(waist - neck) - 70.041 * Math.log10(heightInches) + 36.76;
+  } else {
+    if (!hips || waist + hips <= neck) return null;
+    percent = 163.205 * Math.log10(waist + hips - neck) - 97.684 * Math.log10(heightInches) - 78.387;
+  }
+
+  if (percent < PLAUSIBLE_BODY_FAT[0] || percent > PLAUSIBLE_BODY_FAT[1]) return null;
+  return roundTo(percent, 1);
+}
+
+/**
+ * Body fat for an entry: the typed value, else a Navy estimate from the profile's sex and height
+ */
+export function getBodyFat(entry: MeasurementEntry, profile: ProfileSettings): BodyFatEstimate | null {
+  if (entry.bodyFatPercent !== null) {
+    return { percent: entry.bodyFatPercent, source: 'entered' };
+  }
+  if (!profile.sex || !profile.height) return null;
+
+  const percent = estimateNavyBodyFat(profile.sex, toTotalInches(profile.height), entry.sites);
+  return percent === null ? null : { percent, source: 'navy' };
+}
+
+/**
+ * Fat and lean mass from weight (lbs) and body-fat %
+ */
+export function calculateBodyComposition(weightLbs: number, bodyFatPercent: number): BodyComposition {
+  const fatMass = roundTo((weightLbs * bodyFatPercent) / 100, 1);
+  return { fatMass, leanMass: roundTo(weightLbs - fatMass, 1) };
+}
+
+/**
+ * Weight logged closest to a date, within WEIGHT_MATCH_DAYS (null if none)
+ */
+export function getWeightNear(days: DayRecord[], date: string): number | null {
+  const closest = days.reduce<{ weight: number; distance: number } | null>((best, day) => {
+    if (day.weight === null) return best;
+    const distance = Math.abs(daysBetween(date, day.date));
+    if (distance > WEIGHT_MATCH_DAYS || (best && best.distance <= distance)) return best;
+    return { weight: day.weight, distance };
+  }, null);
+  return closest?.weight ?? null;
+}
+
+/**
+ * Newest entry first
+ */
+export function sortMeasurements(measurements: MeasurementEntry[]): MeasurementEntry[] {
+  return [...measurements].sort((a, b) => b.date.localeCompare(a.date) || b.loggedAt.localeCompare(a.loggedAt));
+}
+
+/**
+ * Chart points, oldest first: each site, body fat and lean/fat mass (lbs;
+ * null without a weight within WEIGHT_MATCH_DAYS)
+ */
+export function buildCompositionSeries(
+  measurements: MeasurementEntry[],
+  days: DayRecord[],
+  profile: ProfileSettings
+): CompositionPoint[] {
+  return sortMeasurements(measurements)
+    .reverse()
+    .map(entry => {
+      const bodyFat = getBodyFat(entry, profile)?.percent ?? null;
+      const weight = getWeightNear(days, entry.date);
+      const composition = bodyFat !== null && weight !== null ? calculateBodyComposition(weight, bodyFat) : null;
+
+      const point: CompositionPoint = {
+        date: formatShortDate(entry.date),
+        fullDate: entry.date,
+        bodyFat,
+        leanMass: composition?.leanMass ?? null,
+        fatMass: composition?.fatMass ?? null,
+      };
+      MEASUREMENT_SITE_OPTIONS.forEach(({ value }) => {
+        point[value] = entry.sites[value] ?? null;
+      });
+      return point;
+    });
+}
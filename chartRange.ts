@@ -0,0 +1,182 @@
+/**
+ * chartRange - Chart time ranges, filtering and weekly downsampling
+ *
+ * TypeScript Concepts:
+ * - Union types for range values
+ * - Generic functions with constrained keys
+ * - Record lookup tables
+ */
+
+import { addDays, daysBetween, formatShortDate, parseDateKey, toDateKey } from './dateKeys';
+
+/** Preset and custom chart ranges */
+export type ChartRange = '7d' | '14d' | '30d' | '90d' | '6m' | '1y' | 'all' | 'custom';
+
+/** Start/end dates for the custom range ("YYYY-MM-DD") */
+export interface CustomDateRange {
+  start: string;
+  end: string;
+}
+
+/** Any point that can be placed on a date axis */
+export interface DatedPoint {
+  date: string; // "MM/DD" format
+  fullDate?: string; // "YYYY-MM-DD"
+}
+
+/**
+ * Keys of T whose values are numbers (or null for "not logged").
+ * Points with an index signature (dynamic series) accept any string key.
+ */
+type NumericKeys<T> = string extends keyof T
+  ? string
+  : { [K in keyof T]: T[K] extends number | null ? K : never }[keyof T];
+
+/** Dropdown options in display order */
+export const CHART_RANGE_OPTIONS: { value: ChartRange; label: string }[] = [
+  { value: '7d', label: '7d' },
+  { value: '14d', label: '14d' },
+  { value: '30d', label: '30d' },
+  { value: '90d', label: '90d' },
+  { value: '6m', label: '6m' },
+  { value: '1y', label: '1y' },
+  { value: 'all', label: 'All time' },
+  { value: 'custom', label: 'Custom' },
+];
+
+/** Length of each preset range in days */
+const RANGE_DAYS: Record<Exclude<ChartRange, 'all' | 'custom'>, number> = {
+  '7d': 7,
+  '14d': 14,
+  '30d': 30,
+  '90d': 90,
+  '6m': 182,
+  '1y': 365,
+};
+
+/** Spans longer than this are averaged per week */
+export const WEEKLY_AGGREGATION_THRESHOLD_DAYS = 90;
+
+/** Spans longer than this use month labels on the X-axis */
+export const MONTH_LABEL_THRESHOLD_DAYS = 60;
+
+/**
+ * Start/end date keys for a range.
+ * Returns null start for "all time" (no lower bound).
+ */
+export function getRangeBounds(
+  range: ChartRange,
+  customRange: CustomDateRange | null = null,
+  today: Date = new Date()
+): { start: string | null; end: string } {
+  const end = toDateKey(today);
+
+  if (range === 'all') {
+    return { start: null, end };
+  }
+  if (range === 'custom') {
+    if (!customRange) return { start: null, end };
+    return { start: customRange.start, end: customRange.end };
+  }
+
+  return { start: addDays(end, -(RANGE_DAYS[range] - 1)), end };
+}
+
+/**
+ * Keep only points inside the range (points without full dates are kept)
+ */
+export function filterByRange<T extends DatedPoint>(
+  points: T[],
+  range: ChartRange,
+  customRange: CustomDateRange | null = null,
+  today: Date = new Date()
+): T[] {
+  const { start, end } = getRangeBounds(range, customRange, today);
+  return points.filter(point => {
+    if (!point.fullDate) return true;
+    if (start && point.fullDate < start) return false;
+    return point.fullDate <= end;
+  });
+}
+
+/**
+ * Number of days covered by a series (0 if dates are unknown)
+ */
+export function getSpanDays(points: DatedPoint[]): number {
+  if (points.length < 2) return 0;
+  const first = points[0].fullDate;
+  const last = points[points.length - 1].fullDate;
+  if (!first || !last) return 0;
+  return daysBetween(first, last) + 1;
+}
+
+/**
+ * Monday of the week containing a date key
+ */
+export function getWeekStart(dateKey: string): string {
+  const dayOfWeek = parseDateKey(dateKey).getDay();
+  const offset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
+  return addDays(dateKey, offset);
+}
+
+/**
+ * Average the given numeric fields per calendar week (Mon-Sun).
+ * Each output point is dated to its week's Monday. Null values are
+ * left out of the average (null if the whole week is empty).
+ */
+export function aggregateByWeek<T extends DatedPoint>(points: T[], valueKeys: NumericKeys<T>[]): T[] {
+  const weeks = new Map<string, T[]>();
+
+  points.forEach(point => {
+    if (!point.fullDate) return;
+    const weekStart = getWeekStart(point.fullDate);
+    const bucket = weeks.get(weekStart) ?? [];
+    bucket.push(point);
+    weeks.set(weekStart, bucket);
+  });
+
+  return Array.from(weeks.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, bucket]) => {
+      const averaged = { ...bucket[bucket.length - 1], date: formatShortDate(weekStart), fullDate: weekStart };
+      valueKeys.forEach(key => {
+        const values = bucket
+          .map(point => point[key as keyof T] as unknown)
+          .filter((value): value is number => typeof value === 'number');
+        const total = values.reduce((sum, value) => sum + value, 0);
+        (averaged[key] as number | null) = values.length > 0 ? total / values.length : null;
+      });
+      return averaged;
+    });
+}
+
+/** Points ready to plot */
+export interface ChartPoints<T> {
+  points: T[];
+  /** Points are weekly averages rather than single days */
+  isWeekly: boolean;
+}
+
+/**
+ * Downsample long spans to weekly averages; short spans pass through
+ */
+export function downsampleForChart<T extends DatedPoint>(points: T[], valueKeys: NumericKeys<T>[]): ChartPoints<T> {
+  if (getSpanDays(points) <= WEEKLY_AGGREGATION_THRESHOLD_DAYS) {
+    return { points, isWeekly: false };
+  }
+  return { points: aggregateByWeek(points, valueKeys), isWeekly: true };
+}
+
+/**
+ * X-axis label for a point: "MM/DD" for short spans, month names for long ones
+ */
+export function formatAxisLabel(point: DatedPoint, spanDays: number): string {
+  if (!point.fullDate || spanDays <= MONTH_LABEL_THRESHOLD_DAYS) {
+    return point.date;
+  }
+
+  const options: Intl.DateTimeFormatOptions = spanDays > 365
+    ? { month: 'short', year: '2-digit' }
+    : { month: 'short' };
+  return parseDateKey(point.fullDate).toLocaleDateString(undefined, options);
+}
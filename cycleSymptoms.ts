@@ -0,0 +1,143 @@
+/**
+ * cycleSymptoms - Flow, symptom checklist and per-phase symptom patterns
+ *
+ * Symptoms are stored on each day as the checklist labels that were
+ * ticked, so renaming or removing an item from the checklist doesn't
+ * rewrite past days. Per-phase summaries only count days where the
+ * cycle section was filled in (period answered, flow or symptoms),
+ * since an untouched day says nothing about symptoms.
+ *
+ * TypeScript Concepts:
+ * - Union types with option lists for pickers
+ * - Counting into a Map, then sorting
+ */
+
+import type { CyclePhase } from '../../context/AppContext';
+import { CYCLE_PHASE_LABELS, CYCLE_PHASE_NAMES, getCyclePosition } from './cycleTracking';
+import type { CycleSettings, DayRecord } from './healthRecords';
+
+/** Period flow for a day */
+export type FlowLevel = 'spotting' | 'light' | 'medium' | 'heavy';
+
+export const FLOW_OPTIONS: { value: FlowLevel; label: string }[] = [
+  { value: 'spotting', label: 'Spotting' },
+  { value: 'light', label: 'Light' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'heavy', label: 'Heavy' },
+];
+
+/** Starting checklist; users can add and remove items */
+export const DEFAULT_SYMPTOMS = [
+  'Cramps',
+  'Bloating',
+  'Headache',
+  'Low mood',
+  'Irritability',
+  'Cravings',
+  'Breast tenderness',
+  'Acne',
+  'Fatigue',
+];
+
+/** Longest checklist label */
+export const MAX_SYMPTOM_LENGTH = 30;
+
+/** Tracked days a phase needs before its percentages are shown */
+export const MIN_PHASE_TRACKED_DAYS = 3;
+
+/** Share of tracked days a symptom needs to be listed for a phase */
+const MIN_SYMPTOM_SHARE = 0.25;
+
+/** How often one symptom appeared in a phase */
+export interface SymptomFrequency {
+  symptom: string;
+  days: number;
+  /** Share of tracked days in the phase (0-100) */
+  percent: number;
+}
+
+export interface PhaseSymptomSummary {
+  phase: CyclePhase;
+  label: string;
+  /** Days in this phase with the cycle section filled in */
+  trackedDays: number;
+  /** Most common first, only those at or above MIN_SYMPTOM_SHARE */
+  symptoms: SymptomFrequency[];
+  /** Most logged flow level in this phase (null if none) */
+  typicalFlow: FlowLevel | null;
+}
+
+/**
+ * Tick or untick a symptom
+ */
+export function toggleSymptom(symptoms: string[], symptom: string): string[] {
+  return symptoms.includes(symptom)
+    ? symptoms.filter(item => item !== symptom)
+    : [...symptoms, symptom];
+}
+
+/**
+ * Trimmed, non-empty, case-insensitively unique checklist
+ */
+export function normalizeSymptomChecklist(symptoms: string[] | null | undefined): string[] {
+  const seen = new Set<string>();
+  return (symptoms ?? DEFAULT_SYMPTOMS)
+    .map(symptom => symptom.trim().slice(0, MAX_SYMPTOM_LENGTH))
+    .filter(symptom => {
+      const key = symptom.toLowerCase();
+      if (!symptom || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Whether anything in the cycle section was filled in for a day
+ */
+function isCycleTracked(day: DayRecord): boolean {
+  return day.isPeriodDay !== null || day.flow !== null || day.symptoms.length > 0;
+}
+
+/**
+ * Symptom frequency and typical flow for each phase over past cycles
+ */
+export function summarizeSymptomsByPhase(
+  days: DayRecord[],
+  periodStarts: string[],
+  settings: CycleSettings
+): PhaseSymptomSummary[] {
+  const tracked = new Map<CyclePhase, DayRecord[]>();
+  days.filter(isCycleTracked).forEach(day => {
+    const position = getCyclePosition(day.date, periodStarts, settings);
+    if (!position) return;
+    tracked.set(position.phase, [...(tracked.get(position.phase) ?? []), day]);
+  });
+
+  return CYCLE_PHASE_NAMES.map(phase => {
+    const phaseDays = tracked.get(phase) ?? [];
+
+    const symptomCounts = new Map<string, number>();
+    const flowCounts = new Map<FlowLevel, number>();
+    phaseDays.forEach(day => {
+      day.symptoms.forEach(symptom => symptomCounts.set(symptom, (symptomCounts.get(symptom) ?? 0) + 1));
+      if (day.flow) flowCounts.set(day.flow, (flowCounts.get(day.flow) ?? 0) + 1);
+    });
+
+    const symptoms = Array.from(symptomCounts.entries())
+      .map(([symptom, count]) => ({
+        symptom,
+        days: count,
+        percent: Math.round((count / phaseDays.length) * 100),
+      }))
+      .filter(frequency => frequency.days / phaseDays.length >= MIN_SYMPTOM_SHARE)
+      .sort((a, b) => b.days - a.days || a.symptom.localeCompare(b.symptom));
+
+    // Ties go to the heavier flow
+    const typicalFlow = FLOW_OPTIONS.reduce<FlowLevel | null>((best, option) => {
+      const count = flowCounts.get(option.value) ?? 0;
+      return count > 0 && count >= (best ? flowCounts.get(best) ?? 0 : 0) ? option.value : best;
+    }, null);
+
+    return { phase, label: CYCLE_PHASE_LABELS[phase], trackedDays: phaseDays.length, symptoms, typicalFlow };
+  });
+}
@@ -0,0 +1,291 @@
+/**
+ * cycleTracking - Cycle history, predictions and phase for any date
+ *
+ * Period starts come from the period-day answers on the daily log
+ * (a "yes" after a "no" or an unlogged day), plus the Last Period Start
+ * setting from CycleField. Consecutive starts form a cycle history;
+ * cycle length and period duration are learned from the most recent
+ * cycles, falling back to the CycleField settings until enough are
+ * logged. Phases are estimated from the most recent start before a date.
+ *
+ * TypeScript Concepts:
+ * - AppContext's CyclePhase union for phases
+ * - Returning null when a value can't be estimated
+ */
+
+import type { CyclePhase } from '../../context/AppContext';
+import { addDays, daysBetween, toDateKey } from './dateKeys';
+import type { CycleSettings, DayRecord } from './healthRecords';
+
+export const CYCLE_PHASE_NAMES: CyclePhase[] = ['menstrual', 'follicular', 'ovulation', 'luteal'];
+
+export const CYCLE_PHASE_LABELS: Record<CyclePhase, string> = {
+  menstrual: 'Menstrual',
+  follicular: 'Follicular',
+  ovulation: 'Ovulation',
+  luteal: 'Luteal',
+};
+
+/** Used when the user hasn't set cycle length / period days */
+export const DEFAULT_CYCLE_LENGTH = 28;
+export const DEFAULT_PERIOD_DAYS = 5;
+
+/** Luteal phase is fairly constant, so ovulation is counted back from the next period */
+const LUTEAL_DAYS = 14;
+
+/** Past this multiple of the cycle length a start is too old to estimate from */
+const MAX_CYCLE_STRETCH = 1.5;
+
+/** Cycles used to learn length and period duration */
+export const CYCLE_HISTORY_COUNT = 6;
+
+/** Cycles needed before learned values replace the settings */
+export const MIN_LEARNED_CYCLES = 2;
+
+/** Gaps outside this range are likely missed logging, not real cycles */
+const MIN_PLAUSIBLE_CYCLE = 15;
+const MAX_PLAUSIBLE_CYCLE = 60;
+
+/** Typical cycle length range; averages outside it are flagged */
+const TYPICAL_CYCLE_RANGE: [number, number] = [21, 35];
+
+/** Cycle-to-cycle variation (days) above which cycles count as irregular */
+const IRREGULAR_VARIATION_DAYS = 7;
+
+/** Cycles needed before irregularity is judged */
+const MIN_IRREGULARITY_CYCLES = 3;
+
+/** ± days around the estimate when there's no history to learn a range from */
+const DEFAULT_PREDICTION_MARGIN = 3;
+
+/** One cycle from the log */
+export interface CycleRecord {
+  /** First period day */
+  start: string;
+  /** Logged period days in a row from the start (null if the start came from settings) */
+  periodDays: number | null;
+  /** Days until the next start (null for the current cycle) */
+  length: number | null;
+  /** False when the gap is too short or long to be a real cycle (likely missed logging) */
+  isPlausible: boolean;
+}
+
+export type IrregularityReason = 'variable-length' | 'outside-typical-range';
+
+/** What the last few cycles say */
+export interface CycleStats {
+  /** Learned or, if too few cycles, from settings */
+  cycleLength: number;
+  periodDays: number;
+  /** Shortest and longest recent cycle (null if fewer than MIN_LEARNED_CYCLES) */
+  lengthRange: [number, number] | null;
+  /** Cycles the averages came from (0 = settings) */
+  cycleCount: number;
+  irregularities: IrregularityReason[];
+}
+
+/** Window for the next period start */
+export interface PeriodPrediction {
+  earliest: string;
+  likely: string;
+  latest: string;
+  /** Today is past the latest expected date */
+  isLate: boolean;
+}
+
+/** Everything CycleSection needs, from one pass over the days */
+export interface CycleSummary {
+  history: CycleRecord[];
+  stats: CycleStats;
+  prediction: PeriodPrediction | null;
+  /** Settings with learned values filled in, for phase estimates */
+  effectiveSettings: CycleSettings;
+  /** Today's phase and cycle day from the same history (null if unknown) */
+  position: CyclePosition | null;
+}
+
+export interface CyclePosition {
+  phase: CyclePhase;
+  /** 1 = first day of the period */
+  cycleDay: number;
+  /** Date of the period start this position counts from */
+  periodStart: string;
+}
+
+/**
+ * Dates where a period began, oldest first
+ */
+export function getPeriodStarts(days: DayRecord[], settings: CycleSettings | null = null): string[] {
+  const periodDates = new Set(days.filter(day => day.isPeriodDay === true).map(day => day.date));
+  const starts = Array.from(periodDates).filter(date => !periodDates.has(addDays(date, -1)));
+
+  if (settings?.lastPeriodStart && !starts.includes(settings.lastPeriodStart)) {
+    // Skip it if it's inside a logged period we already counted
+    const covered = periodDates.has(settings.lastPeriodStart) && periodDates.has(addDays(settings.lastPeriodStart, -1));
+    if (!covered) starts.push(settings.lastPeriodStart);
+  }
+
+  return starts.sort();
+}
+
+/**
+ * Phase for a day of the cycle
+ */
+export function getPhaseForCycleDay(cycleDay: number, cycleLength: number, periodDays: number): CyclePhase {
+  const ovulationDay = cycleLength - LUTEAL_DAYS;
+  if (cycleDay <= periodDays) return 'menstrual';
+  if (cycleDay < ovulationDay - 1) return 'follicular';
+  if (cycleDay <= ovulationDay + 1) return 'ovulation';
+  return 'luteal';
+}
+
+/**
+ * Cycle phase on a date (null if no period start is close enough before it)
+ */
+export function getCyclePosition(
+  date: string,
+  periodStarts: string[],
+  settings: CycleSettings
+): CyclePosition | null {
+  const cycleLength = settings.cycleLength ?? DEFAULT_CYCLE_LENGTH;
+  const periodDays = settings.averagePeriodDays ?? DEFAULT_PERIOD_DAYS;
+
+  const periodStart = [...periodStarts].reverse().find(start => start <= date);
+  if (!periodStart) return null;
+
+  const cycleDay = daysBetween(periodStart, date) + 1;
+  if (cycleDay > cycleLength * MAX_CYCLE_STRETCH) return null;
+
+  return { phase: getPhaseForCycleDay(cycleDay, cycleLength, periodDays), cycleDay, periodStart };
+}
+
+/**
+ * Cycles formed by consecutive period starts, oldest first
+ */
+export function getCycleHistory(days: DayRecord[], settings: CycleSettings | null = null): CycleRecord[] {
+  const periodDates = new Set(days.filter(day => day.isPeriodDay === true).map(day => day.date));
+  const starts = getPeriodStarts(days, settings);
+
+  return starts.map((start, index) => {
+    let periodDays: number | null = null;
+    if (periodDates.has(start)) {
+      periodDays = 1;
+      while (periodDates.has(addDays(start, periodDays))) periodDays++;
+    }
+
+    const next = starts[index + 1];
+    const length = next ? daysBetween(start, next) : null;
+    const isPlausible = length === null || (length >= MIN_PLAUSIBLE_CYCLE && length <= MAX_PLAUSIBLE_CYCLE);
+    return { start, periodDays, length, isPlausible };
+  });
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Cycle length and period duration from the last CYCLE_HISTORY_COUNT
+ * complete cycles, plus irregularity flags
+ */
+export function getCycleStats(history: CycleRecord[], settings: CycleSettings | null = null): CycleStats {
+  const recent = history
+    .filter(cycle => cycle.length !== null && cycle.isPlausible)
+    .slice(-CYCLE_HISTORY_COUNT);
+  const lengths = recent.map(cycle => cycle.length as number);
+  const periodLengths = history
+    .map(cycle => cycle.periodDays)
+    .filter((days): days is number => days !== null)
+    .slice(-CYCLE_HISTORY_COUNT);
+
+  const hasHistory = lengths.length >= MIN_LEARNED_CYCLES;
+  const cycleLength = hasHistory
+    ? Math.round(average(lengths))
+    : settings?.cycleLength ?? DEFAULT_CYCLE_LENGTH;
+  const periodDays = periodLengths.length >= MIN_LEARNED_CYCLES
+    ? Math.round(average(periodLengths))
+    : settings?.averagePeriodDays ?? DEFAULT_PERIOD_DAYS;
+
+  const irregularities: IrregularityReason[] = [];
+  if (lengths.length >= MIN_IRREGULARITY_CYCLES) {
+    if (Math.max(...lengths) - Math.min(...lengths) > IRREGULAR_VARIATION_DAYS) {
+      irregularities.push('variable-length');
+    }
+    if (cycleLength < TYPICAL_CYCLE_RANGE[0] || cycleLength > TYPICAL_CYCLE_RANGE[1]) {
+      irregularities.push('outside-typical-range');
+    }
+  }
+
+  return {
+    cycleLength,
+    periodDays,
+    lengthRange: hasHistory ? [Math.min(...lengths), Math.max(...lengths)] : null,
+    cycleCount: hasHistory ? lengths.length : 0,
+    irregularities,
+  };
+}
+
+/**
+ * Window for the next period after the latest start (null if no start is known)
+ */
+export function predictNextPeriod(
+  history: CycleRecord[],
+  stats: CycleStats,
+  today: string
+): PeriodPrediction | null {
+  const current = history[history.length - 1];
+  if (!current) return null;
+
+  const [shortest, longest] = stats.lengthRange ?? [
+    stats.cycleLength - DEFAULT_PREDICTION_MARGIN,
+    stats.cycleLength + DEFAULT_PREDICTION_MARGIN,
+  ];
+  // Always at least a day either side; one cycle length isn't a promise
+  const earliest = addDays(current.start, Math.min(shortest, stats.cycleLength - 1));
+  const latest = addDays(current.start, Math.max(longest, stats.cycleLength + 1));
+
+  return {
+    earliest,
+    likely: addDays(current.start, stats.cycleLength),
+    latest,
+    isLate: today > latest,
+  };
+}
+
+/**
+ * History, learned stats and prediction in one call
+ */
+export function summarizeCycles(days: DayRecord[], settings: CycleSettings | null, today: string): CycleSummary {
+  const history = getCycleHistory(days, settings);
+  const stats = getCycleStats(history, settings);
+  const lastStart = history[history.length - 1]?.start ?? settings?.lastPeriodStart ?? null;
+  const effectiveSettings: CycleSettings = {
+    cycleLength: stats.cycleLength,
+    averagePeriodDays: stats.periodDays,
+    lastPeriodStart: lastStart,
+  };
+
+  return {
+    history,
+    stats,
+    prediction: predictNextPeriod(history, stats, today),
+    effectiveSettings,
+    position: getCyclePosition(today, history.map(cycle => cycle.start), effectiveSettings),
+  };
+}
+
+/** Phase for a date (null when it can't be estimated) */
+export type PhaseLookup = (date: string) => CyclePhase | null;
+
+/**
+ * Phase lookup using learned cycle length, for per-day goals and charts.
+ * Returns null when no period start is known (cycle not tracked).
+ */
+export function createPhaseLookup(days: DayRecord[], settings: CycleSettings | null): PhaseLookup | null {
+  // Today only feeds the prediction, which the lookup doesn't use
+  const { history, effectiveSettings } = summarizeCycles(days, settings, toDateKey(new Date()));
+  if (history.length === 0) return null;
+
+  const periodStarts = history.map(cycle => cycle.start);
+  return (date) => getCyclePosition(date, periodStarts, effectiveSettings)?.phase ?? null;
+}
@@ -0,0 +1,84 @@
+/**
+ * dateKeys - Helpers for "YYYY-MM-DD" date keys
+ *
+ * Daily logs are keyed by local calendar date, so all math here
+ * works on local dates (never UTC) to avoid off-by-one days.
+ *
+ * TypeScript Concepts:
+ * - Small pure utility functions
+ * - Template literal formatting
+ */
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a "YYYY-MM-DD" string as a local date
+ */
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Format a Date as "YYYY-MM-DD"
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Add (or subtract) whole days to a date key
+ */
+export function addDays(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+/**
+ * Whole days from one date key to another (positive if `to` is later)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Format a date key as "MM/DD", matching the chart labels
+ */
+export function formatShortDate(dateKey: string): string {
+  const [, month, day] = dateKey.split('-');
+  return `${month}/${day}`;
+}
+
+/**
+ * Normalize common date formats to "YYYY-MM-DD".
+ * Accepts ISO dates/timestamps, "MM/DD/YYYY" and "MM/DD/YY".
+ */
+export function parseDateValue(value: string): string | null {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return toCalendarDateKey(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    return toCalendarDateKey(year, Number(us[1]), Number(us[2]));
+  }
+
+  return null;
+}
+
+/**
+ * Date key for a year, month (1-12) and day, or null for dates that
+ * don't exist (e.g. Feb 30, which Date would roll into March)
+ */
+function toCalendarDateKey(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toDateKey(date);
+}
@@ -0,0 +1,261 @@
+/**
+ * dayMerge - Field-by-field merge of a day edited on two devices
+ *
+ * Each DayRecord stamps fieldUpdatedAt when a metric changes. When the
+ * server copy differs from ours, a field only counts as edited on a side
+ * if its stamp is newer than our last successful sync of that date:
+ * - edited on one side -> take that side
+ * - edited on both, same value -> nothing to do
+ * - edited on both, different values -> real conflict, ask the user
+ *
+ * Food entries, workouts and naps merge by id: union of both lists, the newer
+ * edit wins, and deletions on either side stick. Macro totals are then recomputed
+ * from the merged entries instead of being merged as fields.
+ *
+ * The last sync time per date is kept by offlineQueue; useDaySync runs
+ * mergeRemoteDays when the server's days come in.
+ *
+ * TypeScript Concepts:
+ * - Generic helpers over keyed fields
+ * - Result objects with separate "needs attention" lists
+ */
+
+import { DAY_METRIC_FIELDS, isSameFieldValue } from './healthRecords';
+import type { DayMetricField, DayRecord } from './healthRecords';
+import { sumMacros } from './foodLibrary';
+import type { MealEntry } from './foodLibrary';
+import type { WorkoutEntry } from './workouts';
+import type { NapEntry } from './sleep';
+
+/** Totals derived from food entries rather than edited directly */
+const MACRO_FIELDS: DayMetricField[] = ['protein', 'carbs', 'fat'];
+
+/** A field both devices changed to different values */
+export interface FieldConflict<F extends DayMetricField = DayMetricField> {
+  field: F;
+  localValue: DayRecord[F];
+  remoteValue: DayRecord[F];
+  localUpdatedAt: string | null;
+  remoteUpdatedAt: string | null;
+  /** Sync provider behind each value (null = entered by hand) */
+  localSource: string | null;
+  remoteSource: string | null;
+}
+
+/** Outcome of merging one date */
+export interface DayMergeResult {
+  /** Merged record; conflicting fields keep the local value until resolved */
+  merged: DayRecord;
+  conflicts: FieldConflict[];
+}
+
+/** Outcome of merging everything the server sent */
+export interface RemoteMergeResult {
+  /** Days to save locally: new from the server, or merged without conflicts */
+  changed: DayRecord[];
+  /** Dates that need the user's pick (see DayConflictResolver) */
+  conflicts: DayMergeResult[];
+}
+
+/** Which side the user picked for a conflicting field */
+export type ConflictChoice = 'local' | 'remote';
+
+/**
+ * Whether a field was changed after the last sync
+ */
+function changedSince(day: DayRecord, field: DayMetricField, lastSyncedAt: string | null): boolean {
+  const updatedAt = day.fieldUpdatedAt[field];
+  if (!updatedAt) return false;
+  return lastSyncedAt === null || updatedAt > lastSyncedAt;
+}
+
+/**
+ * Newer of two optional ISO timestamps
+ */
+function latest(a: string | undefined, b: string | undefined): string | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Copy one field's value, stamp and source from the remote record
+ */
+function takeRemote(merged: DayRecord, remote: DayRecord, field: DayMetricField, updatedAt: string | undefined): void {
+  (merged[field] as DayRecord[DayMetricField]) = remote[field];
+  merged.fieldUpdatedAt[field] = updatedAt;
+  setSource(merged, field, remote.fieldSources[field] ?? null);
+}
+
+/**
+ * Set or clear the sync source for a field
+ */
+function setSource(day: DayRecord, field: DayMetricField, source: string | null): void {
+  if (source) {
+    day.fieldSources[field] = source;
+  } else {
+    delete day.fieldSources[field];
+  }
+}
+
+/** Fields shared by food entries, workouts and naps for merging */
+interface LoggedItem {
+  id: string;
+  loggedAt: string;
+  editedAt: string | null;
+}
+
+/**
+ * Union of items by id; deleted ids removed; newer edit wins
+ */
+function mergeById<T extends LoggedItem>(local: T[], remote: T[], deleted: Set<string>): T[] {
+  const byId = new Map<string, T>();
+
+  [...remote, ...local].forEach(entry => {
+    if (deleted.has(entry.id)) return;
+    const existing = byId.get(entry.id);
+    const entryStamp = entry.editedAt ?? entry.loggedAt;
+    const existingStamp = existing ? existing.editedAt ?? existing.loggedAt : '';
+    if (!existing || entryStamp >= existingStamp) {
+      byId.set(entry.id, entry);
+    }
+  });
+
+  return Array.from(byId.values()).sort((a, b) => a.loggedAt.localeCompare(b.loggedAt));
+}
+
+/**
+ * Union of food entries, workouts and naps by id; deleted ids removed; newer edit wins
+ */
+export function mergeEntries(
+  local: DayRecord,
+  remote: DayRecord
+): { entries: MealEntry[]; workouts: WorkoutEntry[]; naps: NapEntry[]; deletedEntryIds: string[] } {
+  const deletedEntryIds = Array.from(new Set([...local.deletedEntryIds, ...remote.deletedEntryIds]));
+  const deleted = new Set(deletedEntryIds);
+
+  return {
+    entries: mergeById(local.entries, remote.entries, deleted),
+    workouts: mergeById(local.workouts, remote.workouts, deleted),
+    naps: mergeById(local.naps, remote.naps, deleted),
+    deletedEntryIds,
+  };
+}
+
+/**
+ * Three-way merge of one date using per-field timestamps
+ */
+export function mergeDayRecords(
+  local: DayRecord,
+  remote: DayRecord,
+  lastSyncedAt: string | null
+): DayMergeResult {
+  const merged: DayRecord = {
+    ...local,
+    fieldUpdatedAt: { ...local.fieldUpdatedAt },
+    fieldSources: { ...local.fieldSources },
+    ...mergeEntries(local, remote),
+  };
+  const conflicts: FieldConflict[] = [];
+  const hasEntries = merged.entries.length > 0;
+
+  if (hasEntries) {
+    Object.assign(merged, sumMacros(merged.entries));
+  }
+
+  DAY_METRIC_FIELDS.forEach(field => {
+    if (hasEntries && MACRO_FIELDS.includes(field)) return;
+
+    const localValue = local[field];
+    const remoteValue = remote[field];
+    if (isSameFieldValue(localValue, remoteValue)) {
+      merged.fieldUpdatedAt[field] = latest(local.fieldUpdatedAt[field], remote.fieldUpdatedAt[field]);
+      return;
+    }
+
+    const localChanged = changedSince(local, field, lastSyncedAt);
+    const remoteChanged = changedSince(remote, field, lastSyncedAt);
+
+    if (remoteChanged && !localChanged) {
+      takeRemote(merged, remote, field, remote.fieldUpdatedAt[field]);
+    } else if (localChanged && remoteChanged) {
+      conflicts.push({
+        field,
+        localValue,
+        remoteValue,
+        localUpdatedAt: local.fieldUpdatedAt[field] ?? null,
+        remoteUpdatedAt: remote.fieldUpdatedAt[field] ?? null,
+        localSource: local.fieldSources[field] ?? null,
+        remoteSource: remote.fieldSources[field] ?? null,
+      });
+    } else if (!localChanged && !remoteChanged) {
+      // Neither side changed since the last sync (or pre-versioning data): newest stamp wins
+      const remoteStamp = remote.fieldUpdatedAt[field];
+      const localStamp = local.fieldUpdatedAt[field];
+      if (remoteStamp && (!localStamp || remoteStamp > localStamp)) {
+        takeRemote(merged, remote, field, remoteStamp);
+      }
+    }
+    // localChanged && !remoteChanged: keep local (already in merged)
+  });
+
+  return { merged, conflicts };
+}
+
+/**
+ * Merge the server's copy of each date into ours.
+ * syncedAt holds when each date last matched the server.
+ */
+export function mergeRemoteDays(
+  local: DayRecord[],
+  remote: DayRecord[],
+  syncedAt: Record<string, string>
+): RemoteMergeResult {
+  const localByDate = new Map(local.map(day => [day.date, day]));
+  const result: RemoteMergeResult = { changed: [], conflicts: [] };
+
+  remote.forEach(remoteDay => {
+    const localDay = localByDate.get(remoteDay.date);
+    if (!localDay) {
+      result.changed.push(remoteDay);
+      return;
+    }
+
+    const merge = mergeDayRecords(localDay, remoteDay, syncedAt[remoteDay.date] ?? null);
+    if (merge.conflicts.length > 0) {
+      result.conflicts.push(merge);
+    } else if (JSON.stringify(merge.merged) !== JSON.stringify(localDay)) {
+      // merged is built from localDay, so key order matches
+      result.changed.push(merge.merged);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Apply the user's picks to a merged record.
+ * Resolved fields are re-stamped so the choice syncs as the newest edit.
+ */
+export function resolveConflicts(
+  result: DayMergeResult,
+  choices: Partial<Record<DayMetricField, ConflictChoice>>,
+  now: Date = new Date()
+): DayRecord {
+  const resolved: DayRecord = {
+    ...result.merged,
+    fieldUpdatedAt: { ...result.merged.fieldUpdatedAt },
+    fieldSources: { ...result.merged.fieldSources },
+  };
+  const resolvedAt = now.toISOString();
+
+  result.conflicts.forEach(conflict => {
+    const choice = choices[conflict.field] ?? 'local';
+    (resolved[conflict.field] as DayRecord[DayMetricField]) =
+      choice === 'remote' ? conflict.remoteValue : conflict.localValue;
+    resolved.fieldUpdatedAt[conflict.field] = resolvedAt;
+    setSource(resolved, conflict.field, choice === 'remote' ? conflict.remoteSource : conflict.localSource);
+  });
+
+  return resolved;
+}
@@ -0,0 +1,240 @@
+/**
+ * foodLibrary - Saved foods, serving math and meal grouping
+ *
+ * TypeScript Concepts:
+ * - Union types for meal slots
+ * - Pick<> for reusing macro fields
+ * - Record for grouping
+ */
+
+/** Meal slot an entry belongs to */
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+/** Meal slots in display order */
+export const MEAL_TYPES: { value: MealType; label: string }[] = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+  { value: 'snack', label: 'Snack' },
+];
+
+/** Grams of each macro */
+export interface Macros {
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+/** A saved food with macros for one serving */
+export interface Food extends Macros {
+  id: string;
+  name: string;
+  /** Serving description, e.g. "1 cup" or "100 g" */
+  servingSize: string;
+  /** Dietary fiber per serving in grams (informational) */
+  fiber?: number;
+  /** Barcode the food was imported from */
+  upc?: string;
+}
+
+/** New food before it has been saved */
+export type FoodInput = Omit<Food, 'id'>;
+
+/** A single logged item on a given day (a saved food or a quick add) */
+export interface MealEntry extends Macros {
+  id: string;
+  /** Saved food this came from (null for quick-add grams) */
+  foodId: string | null;
+  /** Copied at log time so renaming a food doesn't rewrite history */
+  foodName: string;
+  meal: MealType;
+  /** Serving multiplier (e.g. 1.5 servings) */
+  servings: number;
+  /**
+   * Unrounded macros for one serving, so rescaling doesn't compound
+   * rounding (missing on entries logged before this was stored)
+   */
+  perServing?: Macros;
+  /** When the entry was logged (ISO timestamp) */
+  loggedAt: string;
+  /** When the entry was last edited (ISO timestamp, null if never) */
+  editedAt: string | null;
+}
+
+/** Label used for entries added as raw grams */
+export const QUICK_ADD_NAME = 'Quick add';
+
+/**
+ * Round grams to one decimal place
+ */
+function roundGrams(grams: number): number {
+  return Math.round(grams * 10) / 10;
+}
+
+/**
+ * Macros for a number of servings of a food
+ */
+export function scaleFood(food: Macros, servings: number): Macros {
+  return {
+    protein: roundGrams(food.protein * servings),
+    carbs: roundGrams(food.carbs * servings),
+    fat: roundGrams(food.fat * servings),
+  };
+}
+
+/**
+ * Case-insensitive search; name-prefix matches sort before other matches
+ */
+export function searchFoods(foods: Food[], query: string): Food[] {
+  const q = query.trim().toLowerCase();
+  if (!q) {
+    return [...foods].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return foods
+    .filter(food => food.name.toLowerCase().includes(q))
+    .sort((a, b) => {
+      const aPrefix = a.name.toLowerCase().startsWith(q) ? 0 : 1;
+      const bPrefix = b.name.toLowerCase().startsWith(q) ? 0 : 1;
+      return aPrefix - bPrefix || a.name.localeCompare(b.name);
+    });
+}
+
+/**
+ * Build a meal entry from a saved food
+ */
+export function createMealEntry(
+  food: Food,
+  servings: number,
+  meal: MealType,
+  now: Date = new Date()
+): Omit<MealEntry, 'id'> {
+  return {
+    foodId: food.id,
+    foodName: food.name,
+    meal,
+    servings,
+    perServing: { protein: food.protein, carbs: food.carbs, fat: food.fat },
+    ...scaleFood(food, servings),
+    loggedAt: now.toISOString(),
+    editedAt: null,
+  };
+}
+
+/**
+ * Build an entry from grams typed into a MacroInput
+ */
+export function createQuickEntry(
+  macro: keyof Macros,
+  grams: number,
+  meal: MealType = getDefaultMeal(),
+  now: Date = new Date()
+): Omit<MealEntry, 'id'> {
+  const macros: Macros = { protein: 0, carbs: 0, fat: 0, [macro]: roundGrams(grams) };
+  return {
+    foodId: null,
+    foodName: QUICK_ADD_NAME,
+    meal,
+    servings: 1,
+    perServing: macros,
+    ...macros,
+    loggedAt: now.toISOString(),
+    editedAt: null,
+  };
+}
+
+/**
+ * Unrounded per-serving macros for an entry. Older entries without
+ * them are divided back out of their totals.
+ */
+function getPerServing(entry: MealEntry): Macros {
+  if (entry.perServing) return entry.perServing;
+  if (entry.servings <= 0) return { protein: entry.protein, carbs: entry.carbs, fat: entry.fat };
+  return {
+    protein: entry.protein / entry.servings,
+    carbs: entry.carbs / entry.servings,
+    fat: entry.fat / entry.servings,
+  };
+}
+
+/**
+ * Change how many servings an entry is for, rescaling its macros.
+ * Per-serving macros are kept on the entry itself, so this still
+ * works if the saved food was later edited or deleted.
+ */
+export function rescaleEntry(entry: MealEntry, servings: number, now: Date = new Date()): MealEntry {
+  const perServing = getPerServing(entry);
+  return {
+    ...entry,
+    servings,
+    perServing,
+    ...scaleFood(perServing, servings),
+    editedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Apply edited fields to an entry and stamp the edit time.
+ * Typed grams become the new per-serving values for its servings.
+ */
+export function editEntry(
+  entry: MealEntry,
+  changes: Partial<Pick<MealEntry, 'meal' | 'protein' | 'carbs' | 'fat'>>,
+  now: Date = new Date()
+): MealEntry {
+  const edited = { ...entry, ...changes };
+  const servings = entry.servings > 0 ? entry.servings : 1;
+  const perServing = {
+    protein: edited.protein / servings,
+    carbs: edited.carbs / servings,
+    fat: edited.fat / servings,
+  };
+  return { ...edited, perServing, editedAt: now.toISOString() };
+}
+
+/**
+ * Entries in the order they were logged
+ */
+export function sortByLoggedAt(entries: MealEntry[]): MealEntry[] {
+  return [...entries].sort((a, b) => a.loggedAt.localeCompare(b.loggedAt));
+}
+
+/**
+ * Sum macros across entries
+ */
+export function sumMacros(entries: Macros[]): Macros {
+  const total = entries.reduce(
+    (sum, entry) => ({
+      protein: sum.protein + entry.protein,
+      carbs: sum.carbs + entry.carbs,
+      fat: sum.fat + entry.fat,
+    }),
+    { protein: 0, carbs: 0, fat: 0 }
+  );
+  return scaleFood(total, 1);
+}
+
+/**
+ * Group entries by meal slot (every slot present, possibly empty)
+ */
+export function groupByMeal(entries: MealEntry[]): Record<MealType, MealEntry[]> {
+  const groups: Record<MealType, MealEntry[]> = {
+    breakfast: [],
+    lunch: [],
+    dinner: [],
+    snack: [],
+  };
+  sortByLoggedAt(entries).forEach(entry => groups[entry.meal].push(entry));
+  return groups;
+}
+
+/**
+ * Default meal slot for the current time of day
+ */
+export function getDefaultMeal(now: Date = new Date()): MealType {
+  const hour = now.getHours();
+  if (hour < 11) return 'breakfast';
+  if (hour < 15) return 'lunch';
+  if (hour < 21) return 'dinner';
+  return 'snack';
+}
@@ -0,0 +1,179 @@
+/**
+ * goalHistory - Effective-dated goal versions
+ *
+ * Every goal or schedule change adds a version that applies from its
+ * effective date onward, so averages, progress bars and adherence for
+ * past days use the goals that were in force at the time instead of
+ * today's numbers. The first change also records the goals it replaced
+ * as an open-ended starting version.
+ *
+ * TypeScript Concepts:
+ * - Sorted arrays searched by date key
+ * - Reusing the schedule resolver per version
+ */
+
+import {
+  SCHEDULED_GOAL_KEYS,
+  WEEKDAY_NAMES,
+  hasGoalSchedule,
+  normalizeGoalSchedule,
+  resolveGoalsForDate,
+} from './goalSchedule';
+import type { CyclePhase } from '../../context/AppContext';
+import type { GoalSchedule, ResolvedGoals } from './goalSchedule';
+import { CYCLE_PHASE_LABELS, CYCLE_PHASE_NAMES } from './cycleTracking';
+import type { PhaseLookup } from './cycleTracking';
+import type { DayRecord, GoalSettings } from './healthRecords';
+
+/** Goals plus the schedule layered on top of them */
+export interface GoalValues {
+  goals: GoalSettings;
+  goalSchedule: GoalSchedule;
+}
+
+/** Goals in force from one date until the next version */
+export interface GoalVersion extends GoalValues {
+  /** "YYYY-MM-DD" this version starts applying */
+  effectiveFrom: string;
+  /** ISO timestamp of the edit (null for the starting version) */
+  changedAt: string | null;
+}
+
+/** effectiveFrom for the goals in place before history was recorded */
+export const GOAL_HISTORY_START = '1970-01-01';
+
+const GOAL_CHANGE_LABELS: Record<keyof GoalSettings, string> = {
+  calories: 'Calories',
+  protein: 'Protein',
+  carbs: 'Carbs',
+  fat: 'Fat',
+  steps: 'Steps',
+  sleep: 'Sleep',
+};
+
+const GOAL_CHANGE_UNITS: Record<keyof GoalSettings, string> = {
+  calories: ' kcal',
+  protein: 'g',
+  carbs: 'g',
+  fat: 'g',
+  steps: '',
+  sleep: 'h',
+};
+
+/**
+ * Add a version for a goal change.
+ * A second change on the same date replaces that date's version.
+ */
+export function recordGoalChange(
+  history: GoalVersion[],
+  previous: GoalValues,
+  next: GoalValues,
+  effectiveFrom: string,
+  now: Date = new Date()
+): GoalVersion[] {
+  const versions = history.length > 0
+    ? [...history]
+    : [{ ...previous, effectiveFrom: GOAL_HISTORY_START, changedAt: null }];
+
+  const version: GoalVersion = { ...next, effectiveFrom, changedAt: now.toISOString() };
+  return [...versions.filter(v => v.effectiveFrom !== effectiveFrom), version]
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
+/**
+ * Version in force on a date (null if no history yet)
+ */
+export function getGoalVersionOnDate(history: GoalVersion[], date: string): GoalVersion | null {
+  let found: GoalVersion | null = null;
+  for (const version of history) {
+    if (version.effectiveFrom > date) break;
+    found = version;
+  }
+  // Dates before the first version use the earliest goals we know of
+  return found ?? history[0] ?? null;
+}
+
+/**
+ * Goals for a date: the version in force, then its weekday/training/phase schedule.
+ * `current` is used when there is no history yet.
+ */
+export function resolveGoalsOnDate(
+  history: GoalVersion[],
+  current: GoalValues,
+  date: string,
+  isTrainingDay: boolean | null,
+  phase: CyclePhase | null = null
+): ResolvedGoals {
+  const values = getGoalVersionOnDate(history, date) ?? current;
+  return resolveGoalsForDate(values.goals, values.goalSchedule, date, isTrainingDay, phase);
+}
+
+/**
+ * Average of each day's own goal, so an average over past days is compared
+ * against the targets that applied on those days (not today's), including
+ * each day's phase calorie adjustment when phaseOf is given
+ */
+export function averageGoalOnDays(
+  days: Pick<DayRecord, 'date' | 'isTrainingDay'>[],
+  key: keyof GoalSettings,
+  history: GoalVersion[],
+  current: GoalValues,
+  phaseOf: PhaseLookup | null = null
+): number {
+  if (days.length === 0) return current.goals[key];
+  const total = days.reduce((sum, day) => {
+    const phase = phaseOf?.(day.date) ?? null;
+    return sum + resolveGoalsOnDate(history, current, day.date, day.isTrainingDay, phase).goals[key];
+  }, 0);
+  return Math.round(total / days.length);
+}
+
+/**
+ * Human-readable differences between two versions,
+ * e.g. ["Calories 2,000 → 2,200 kcal", "Schedule: Monday changed"]
+ */
+export function describeGoalChanges(previous: GoalValues | null, next: GoalValues): string[] {
+  if (!previous) return [];
+
+  const changes = (Object.keys(GOAL_CHANGE_LABELS) as (keyof GoalSettings)[])
+    .filter(key => previous.goals[key] !== next.goals[key])
+    .map(key =>
+      `${GOAL_CHANGE_LABELS[key]} ${previous.goals[key].toLocaleString()} → ${next.goals[key].toLocaleString()}${GOAL_CHANGE_UNITS[key]}`
+    );
+
+  const scheduleRows = [
+    ...WEEKDAY_NAMES.map((name, index) => ({
+      name,
+      before: previous.goalSchedule.weekdays[index],
+      after: next.goalSchedule.weekdays[index],
+    })),
+    { name: 'Training day', before: previous.goalSchedule.trainingDay, after: next.goalSchedule.trainingDay },
+  ];
+  const changedRows = [
+    ...scheduleRows
+      .filter(row => SCHEDULED_GOAL_KEYS.some(key => row.before?.[key] !== row.after?.[key]))
+      .map(row => row.name),
+    ...CYCLE_PHASE_NAMES
+      .filter(phase => previous.goalSchedule.phaseCalories[phase] !== next.goalSchedule.phaseCalories[phase])
+      .map(phase => `${CYCLE_PHASE_LABELS[phase]} phase`),
+  ];
+
+  if (changedRows.length > 0) {
+    changes.push(
+      hasGoalSchedule(next.goalSchedule)
+        ? `Schedule: ${changedRows.join(', ')} changed`
+        : 'Schedule cleared'
+    );
+  }
+
+  return changes;
+}
+
+/**
+ * Fill in history from older data or backups
+ */
+export function normalizeGoalHistory(history: GoalVersion[] | null | undefined): GoalVersion[] {
+  return (history ?? [])
+    .map(version => ({ ...version, goalSchedule: normalizeGoalSchedule(version.goalSchedule) }))
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
@@ -0,0 +1,180 @@
+/**
+ * goalSchedule - Calorie/macro targets that vary by weekday or training day
+ *
+ * GoalEditor's values are the default. A schedule can override any of
+ * calories/protein/carbs/fat for a weekday, and again for days marked
+ * as training days on the daily log. Resolution order for a date:
+ * default -> weekday override -> training-day override.
+ * An optional per-cycle-phase calorie adjustment (e.g. +150 in the
+ * luteal phase) is then added on top for users tracking their cycle.
+ *
+ * TypeScript Concepts:
+ * - Partial records for sparse overrides
+ * - Tuple-like arrays indexed by Date.getDay()
+ */
+
+import type { CyclePhase } from '../../context/AppContext';
+import { CYCLE_PHASE_LABELS, CYCLE_PHASE_NAMES } from './cycleTracking';
+import { parseDateKey } from './dateKeys';
+import type { GoalSettings } from './healthRecords';
+
+/** Goals a schedule can override */
+export type ScheduledGoalKey = 'calories' | 'protein' | 'carbs' | 'fat';
+
+export const SCHEDULED_GOAL_KEYS: ScheduledGoalKey[] = ['calories', 'protein', 'carbs', 'fat'];
+
+export type GoalOverride = Partial<Pick<GoalSettings, ScheduledGoalKey>>;
+
+/** Where a date's goals came from */
+export type GoalSource = 'default' | 'weekday' | 'training';
+
+export interface GoalSchedule {
+  /** Overrides by day of week, index 0 = Sunday (same as Date.getDay) */
+  weekdays: GoalOverride[];
+  /** Overrides for days marked as training days (win over weekday) */
+  trainingDay: GoalOverride;
+  /** Calories added (or removed, if negative) during each cycle phase */
+  phaseCalories: Partial<Record<CyclePhase, number>>;
+}
+
+/** Goals in effect on one date */
+export interface ResolvedGoals {
+  goals: GoalSettings;
+  source: GoalSource;
+  /** Phase adjustment included in goals.calories (0 if none) */
+  phaseAdjustment: number;
+  /** Phase the adjustment is for (null if none applied) */
+  phase: CyclePhase | null;
+}
+
+export const EMPTY_GOAL_SCHEDULE: GoalSchedule = {
+  weekdays: [{}, {}, {}, {}, {}, {}, {}],
+  trainingDay: {},
+  phaseCalories: {},
+};
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Display order, Monday first (matches weekly chart buckets) */
+export const WEEKDAY_DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * Whether an override sets anything
+ */
+function hasOverride(override: GoalOverride | undefined): boolean {
+  return !!override && SCHEDULED_GOAL_KEYS.some(key => override[key] !== undefined);
+}
+
+/**
+ * Whether any phase has a calorie adjustment
+ */
+export function hasPhaseCalories(schedule: GoalSchedule): boolean {
+  return CYCLE_PHASE_NAMES.some(phase => !!schedule.phaseCalories[phase]);
+}
+
+/**
+ * Whether any weekday, training-day or phase override is set
+ */
+export function hasGoalSchedule(schedule: GoalSchedule): boolean {
+  return schedule.weekdays.some(hasOverride) || hasOverride(schedule.trainingDay) || hasPhaseCalories(schedule);
+}
+
+/**
+ * Goals for a date: defaults, then that weekday, then training day,
+ * then the calorie adjustment for the cycle phase (if known)
+ */
+export function resolveGoalsForDate(
+  goals: GoalSettings,
+  schedule: GoalSchedule,
+  date: string,
+  isTrainingDay: boolean | null,
+  phase: CyclePhase | null = null
+): ResolvedGoals {
+  const weekdayOverride = schedule.weekdays[parseDateKey(date).getDay()];
+  let resolved: GoalSettings = { ...goals };
+  let source: GoalSource = 'default';
+
+  if (hasOverride(weekdayOverride)) {
+    resolved = { ...resolved, ...weekdayOverride };
+    source = 'weekday';
+  }
+  if (isTrainingDay && hasOverride(schedule.trainingDay)) {
+    resolved = { ...resolved, ...schedule.trainingDay };
+    source = 'training';
+  }
+
+  const phaseAdjustment = phase ? schedule.phaseCalories[phase] ?? 0 : 0;
+  if (phaseAdjustment !== 0) {
+    resolved = { ...resolved, calories: resolved.calories + phaseAdjustment };
+  }
+
+  return { goals: resolved, source, phaseAdjustment, phase: phaseAdjustment !== 0 ? phase : null };
+}
+
+/**
+ * Short label for CaloriesSummary, e.g. "Training day", "Monday" or
+ * "Monday · Luteal +150" (null for default)
+ */
+export function describeGoalSource(resolved: ResolvedGoals, date: string): string | null {
+  const labels: string[] = [];
+  if (resolved.source === 'training') labels.push('Training day');
+  if (resolved.source === 'weekday') labels.push(WEEKDAY_NAMES[parseDateKey(date).getDay()]);
+  if (resolved.phase) {
+    const sign = resolved.phaseAdjustment > 0 ? '+' : '';
+    labels.push(`${CYCLE_PHASE_LABELS[resolved.phase]} ${sign}${resolved.phaseAdjustment}`);
+  }
+  return labels.length > 0 ? labels.join(' · ') : null;
+}
+
+/**
+ * Set or clear (null) one override value
+ */
+export function setScheduleOverride(
+  schedule: GoalSchedule,
+  target: number | 'training',
+  key: ScheduledGoalKey,
+  value: number | null
+): GoalSchedule {
+  const update = (override: GoalOverride): GoalOverride => {
+    const next = { ...override };
+    if (value === null) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    return next;
+  };
+
+  if (target === 'training') {
+    return { ...schedule, trainingDay: update(schedule.trainingDay) };
+  }
+  return {
+    ...schedule,
+    weekdays: schedule.weekdays.map((override, index) => (index === target ? update(override) : override)),
+  };
+}
+
+/**
+ * Set or clear (null) the calorie adjustment for a cycle phase
+ */
+export function setPhaseCalories(
+  schedule: GoalSchedule,
+  phase: CyclePhase,
+  value: number | null
+): GoalSchedule {
+  const phaseCalories = { ...schedule.phaseCalories };
+  if (value === null || value === 0) {
+    delete phaseCalories[phase];
+  } else {
+    phaseCalories[phase] = value;
+  }
+  return { ...schedule, phaseCalories };
+}
+
+/**
+ * Fill in a schedule from older data or backups
+ */
+export function normalizeGoalSchedule(schedule: Partial<GoalSchedule> | null | undefined): GoalSchedule {
+  const weekdays = EMPTY_GOAL_SCHEDULE.weekdays.map((empty, index) => schedule?.weekdays?.[index] ?? empty);
+  return { weekdays, trainingDay: schedule?.trainingDay ?? {}, phaseCalories: schedule?.phaseCalories ?? {} };
+}
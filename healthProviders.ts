@@ -0,0 +1,436 @@
+/**
+ * healthProviders - Pluggable sources for synced health data
+ *
+ * A provider hands back per-day steps, weight and sleep; applying a
+ * sync writes those into DayRecords and tags each field with the
+ * provider id (fieldSources). Values the user typed in by hand are
+ * never overwritten by a sync.
+ *
+ * Providers here:
+ * - File provider for exported Health Connect, Google Fit and Fitbit JSON
+ * - Mock provider with fixed days (or a fixed error) for tests
+ *
+ * TypeScript Concepts:
+ * - Interfaces as extension points
+ * - Narrowing `unknown` JSON before reading it
+ * - Factory functions returning interface implementations
+ */
+
+import { parseDateValue, toDateKey } from './dateKeys';
+import type { DayMetricField, DayRecord } from './healthRecords';
+import { normalizeDayRecord, replacesWeighIn } from './healthRecords';
+import { fromDisplayWeight, roundTo } from './units';
+
+/** Metrics a provider can fill in */
+export type SyncedMetric = 'steps' | 'weight' | 'sleepHours';
+
+export const SYNCED_METRICS: SyncedMetric[] = ['steps', 'weight', 'sleepHours'];
+
+export type HealthProviderId = 'health-connect' | 'google-fit' | 'fitbit' | 'mock';
+
+export const HEALTH_PROVIDER_LABELS: Record<HealthProviderId, string> = {
+  'health-connect': 'Health Connect',
+  'google-fit': 'Google Fit',
+  fitbit: 'Fitbit',
+  mock: 'Test data',
+};
+
+/** Readings for one date: steps, weight in lbs, hours slept the night before */
+export type ProviderDay = Pick<DayRecord, 'date'> & Partial<Pick<DayRecord, SyncedMetric>>;
+
+/** A source of synced health data */
+export interface HealthDataProvider {
+  id: HealthProviderId;
+  label: string;
+  /** Metrics this source can supply */
+  metrics: SyncedMetric[];
+  /** Readings per date, oldest first; rejects if the source can't be read */
+  fetchDays: () => Promise<ProviderDay[]>;
+}
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error';
+
+/** Google Fit sleep stages that aren't sleep (awake, out of bed) */
+const GOOGLE_FIT_AWAKE_STAGES = [1, 3];
+
+/** Running totals for one date while reading a file */
+interface DayTotals {
+  steps: number | null;
+  weight: number | null;
+  /** Time of the weight reading kept (see replacesWeighIn) */
+  weighedAt: string;
+  sleepMinutes: number | null;
+}
+
+/** Totals by date */
+type DayTotalsMap = Map<string, DayTotals>;
+
+/**
+ * Totals for a date, created on first use
+ */
+function getTotals(totalsByDate: DayTotalsMap, date: string): DayTotals {
+  let totals = totalsByDate.get(date);
+  if (!totals) {
+    totals = { steps: null, weight: null, weighedAt: '', sleepMinutes: null };
+    totalsByDate.set(date, totals);
+  }
+  return totals;
+}
+
+function addSteps(totalsByDate: DayTotalsMap, date: string, count: number): void {
+  const totals = getTotals(totalsByDate, date);
+  totals.steps = (totals.steps ?? 0) + count;
+}
+
+/**
+ * Weight in kg; the earliest reading of the day is kept
+ */
+function addWeightKg(totalsByDate: DayTotalsMap, date: string, kg: number, time: string = ''): void {
+  const totals = getTotals(totalsByDate, date);
+  if (!replacesWeighIn(time, totals.weight === null ? null : totals.weighedAt)) return;
+  totals.weight = fromDisplayWeight(kg, 'metric');
+  totals.weighedAt = time;
+}
+
+/**
+ * Sleep counts toward the date the user woke up
+ */
+function addSleepMinutes(totalsByDate: DayTotalsMap, date: string, minutes: number): void {
+  const totals = getTotals(totalsByDate, date);
+  totals.sleepMinutes = (totals.sleepMinutes ?? 0) + minutes;
+}
+
+/**
+ * Totals -> ProviderDays, oldest first
+ */
+function toProviderDays(totalsByDate: DayTotalsMap): ProviderDay[] {
+  return Array.from(totalsByDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, totals]) => {
+      const day: ProviderDay = { date };
+      if (totals.steps !== null) day.steps = Math.round(totals.steps);
+      if (totals.weight !== null) day.weight = totals.weight;
+      if (totals.sleepMinutes !== null) day.sleepHours = roundTo(totals.sleepMinutes / 60, 1);
+      return day;
+    });
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asNumber(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Local date key for an ISO timestamp or epoch ms
+ */
+function dateFromTimestamp(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : toDateKey(date);
+}
+
+/**
+ * Minutes between two ISO timestamps or epoch ms values
+ */
+function minutesBetween(start: unknown, end: unknown): number | null {
+  if ((typeof start !== 'string' && typeof start !== 'number') || (typeof end !== 'string' && typeof end !== 'number')) {
+    return null;
+  }
+  const minutes = (new Date(end).getTime() - new Date(start).getTime()) / 60000;
+  return isFinite(minutes) && minutes > 0 ? minutes : null;
+}
+
+/**
+ * Health Connect export: { records: [...] } with Steps, Weight and
+ * SleepSession records (record type in "type" or "recordType")
+ */
+function parseHealthConnect(json: unknown): ProviderDay[] {
+  const records = isObject(json) ? asArray(json.records) : asArray(json);
+  const totals: DayTotalsMap = new Map();
+
+  records.filter(isObject).forEach(record => {
+    const type = String(record.type ?? record.recordType ?? '').replace(/Record$/, '');
+
+    if (type === 'Steps') {
+      const date = dateFromTimestamp(record.startTime);
+      const count = asNumber(record.count);
+      if (date && count !== null) addSteps(totals, date, count);
+    } else if (type === 'Weight') {
+      const date = dateFromTimestamp(record.time);
+      const kg = isObject(record.weight) ? asNumber(record.weight.inKilograms) : asNumber(record.weight);
+      if (date && kg !== null) addWeightKg(totals, date, kg, String(record.time));
+    } else if (type === 'SleepSession') {
+      const date = dateFromTimestamp(record.endTime);
+      const minutes = minutesBetween(record.startTime, record.endTime);
+      if (date && minutes !== null) addSleepMinutes(totals, date, minutes);
+    }
+  });
+
+  return toProviderDays(totals);
+}
+
+/**
+ * Data points from an aggregate response ({ bucket: [{ dataset: [{ point }] }] }),
+ * a single dataset ({ point }) or a Takeout file ({ "Data Points" })
+ */
+function getGoogleFitPoints(json: JsonObject): JsonObject[] {
+  const datasets = [
+    json,
+    ...asArray(json.bucket).filter(isObject).flatMap(bucket => asArray(bucket.dataset)),
+  ].filter(isObject);
+
+  return datasets.flatMap(dataset =>
+    [...asArray(dataset.point), ...asArray(dataset['Data Points'])]
+      .filter(isObject)
+      .map(point => ({ dataSourceId: dataset.dataSourceId, ...point }))
+  );
+}
+
+/**
+ * First value of a Google Fit point (intVal or fpVal)
+ */
+function getGoogleFitValue(point: JsonObject): number | null {
+  const values = [...asArray(point.value), ...asArray(point.fitValue)].filter(isObject);
+  const first = values[0];
+  if (!first) return null;
+  const value = isObject(first.value) ? first.value : first;
+  return asNumber(value.intVal ?? value.fpVal);
+}
+
+/**
+ * Google Fit points with step_count.delta, weight and sleep.segment data types
+ */
+function parseGoogleFit(json: unknown): ProviderDay[] {
+  if (!isObject(json)) return [];
+  const totals: DayTotalsMap = new Map();
+
+  getGoogleFitPoints(json).forEach(point => {
+    const type = String(point.dataTypeName ?? point.dataSourceId ?? '');
+    const start = asNumber(point.startTimeNanos);
+    const end = asNumber(point.endTimeNanos);
+    const value = getGoogleFitValue(point);
+    if (start === null || end === null || value === null) return;
+
+    const startMs = start / 1e6;
+    const endMs = end / 1e6;
+
+    if (type.includes('step_count')) {
+      const date = dateFromTimestamp(startMs);
+      if (date) addSteps(totals, date, value);
+    } else if (type.includes('com.google.weight')) {
+      const date = dateFromTimestamp(endMs);
+      if (date) addWeightKg(totals, date, value, new Date(endMs).toISOString());
+    } else if (type.includes('sleep.segment') && !GOOGLE_FIT_AWAKE_STAGES.includes(value)) {
+      const date = dateFromTimestamp(endMs);
+      const minutes = minutesBetween(startMs, endMs);
+      if (date && minutes !== null) addSleepMinutes(totals, date, minutes);
+    }
+  });
+
+  return toProviderDays(totals);
+}
+
+/**
+ * Fitbit dates come as "YYYY-MM-DD" (Web API) or "MM/DD/YY HH:MM:SS" (Takeout)
+ */
+function parseFitbitDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  return parseDateValue(value.split(' ')[0]);
+}
+
+/**
+ * Fitbit Web API responses ("activities-steps", "weight", "sleep") or
+ * Takeout arrays of the same entries. Weight is read as kg, the API default.
+ */
+function parseFitbit(json: unknown): ProviderDay[] {
+  const totals: DayTotalsMap = new Map();
+  const source = isObject(json) ? json : { entries: json };
+
+  asArray(source['activities-steps']).filter(isObject).forEach(entry => {
+    const date = parseFitbitDate(entry.dateTime);
+    const count = asNumber(entry.value);
+    if (date && count !== null) addSteps(totals, date, count);
+  });
+
+  asArray(source.weight).filter(isObject).forEach(entry => {
+    const date = parseFitbitDate(entry.date);
+    const kg = asNumber(entry.weight);
+    if (date && kg !== null) addWeightKg(totals, date, kg, String(entry.time ?? ''));
+  });
+
+  asArray(source.sleep).filter(isObject).forEach(entry => {
+    const date = parseFitbitDate(entry.dateOfSleep);
+    const minutes = asNumber(entry.minutesAsleep);
+    if (date && minutes !== null) addSleepMinutes(totals, date, minutes);
+  });
+
+  // Takeout: a bare array of step, weight or sleep entries
+  asArray(source.entries).filter(isObject).forEach(entry => {
+    if (entry.dateOfSleep !== undefined) {
+      const date = parseFitbitDate(entry.dateOfSleep);
+      const minutes = asNumber(entry.minutesAsleep);
+      if (date && minutes !== null) addSleepMinutes(totals, date, minutes);
+    } else if (entry.weight !== undefined) {
+      const date = parseFitbitDate(entry.date);
+      const kg = asNumber(entry.weight);
+      if (date && kg !== null) addWeightKg(totals, date, kg, String(entry.time ?? ''));
+    } else {
+      const date = parseFitbitDate(entry.dateTime);
+      const count = asNumber(entry.value);
+      if (date && count !== null) addSteps(totals, date, count);
+    }
+  });
+
+  return toProviderDays(totals);
+}
+
+const FILE_PARSERS: Record<Exclude<HealthProviderId, 'mock'>, (json: unknown) => ProviderDay[]> = {
+  'health-connect': parseHealthConnect,
+  'google-fit': parseGoogleFit,
+  fitbit: parseFitbit,
+};
+
+/**
+ * Which service an exported JSON file came from (null if unrecognized)
+ */
+export function detectProviderFormat(json: unknown): Exclude<HealthProviderId, 'mock'> | null {
+  if (isObject(json)) {
+    if (Array.isArray(json.records)) return 'health-connect';
+    if (Array.isArray(json.bucket) || Array.isArray(json.point) || Array.isArray(json['Data Points'])) {
+      return 'google-fit';
+    }
+    if (['activities-steps', 'weight', 'sleep'].some(key => Array.isArray(json[key]))) return 'fitbit';
+    return null;
+  }
+
+  const first = asArray(json)[0];
+  if (!isObject(first)) return null;
+  if (first.recordType !== undefined || first.type !== undefined) return 'health-connect';
+  if (first.dateTime !== undefined || first.dateOfSleep !== undefined || first.logId !== undefined) return 'fitbit';
+  return null;
+}
+
+/**
+ * Provider over an exported JSON file (null if the file isn't recognized)
+ */
+export function createFileProvider(text: string): HealthDataProvider | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const format = detectProviderFormat(json);
+  if (!format) return null;
+
+  const days = FILE_PARSERS[format](json);
+  return {
+    id: format,
+    label: HEALTH_PROVIDER_LABELS[format],
+    metrics: SYNCED_METRICS.filter(metric => days.some(day => day[metric] !== undefined)),
+    fetchDays: async () => days,
+  };
+}
+
+/**
+ * Provider with fixed readings, or one that always fails with `error`
+ */
+export function createMockProvider(days: ProviderDay[], error: string | null = null): HealthDataProvider {
+  return {
+    id: 'mock',
+    label: HEALTH_PROVIDER_LABELS.mock,
+    metrics: SYNCED_METRICS,
+    fetchDays: async () => {
+      if (error) throw new Error(error);
+      return days.map(day => ({ ...day }));
+    },
+  };
+}
+
+/**
+ * Write provider readings into days. A field is only filled if it's
+ * empty or was synced before; manual entries are left alone.
+ * Returns only the days that need saving.
+ */
+export function applyProviderDays(
+  existing: DayRecord[],
+  incoming: ProviderDay[],
+  providerId: string,
+  now: Date = new Date()
+): DayRecord[] {
+  const existingByDate = new Map(existing.map(day => [day.date, day]));
+  const syncedAt = now.toISOString();
+  const changed: DayRecord[] = [];
+
+  incoming.forEach(reading => {
+    const current = existingByDate.get(reading.date) ?? normalizeDayRecord({ date: reading.date });
+    const next: DayRecord = {
+      ...current,
+      fieldUpdatedAt: { ...current.fieldUpdatedAt },
+      fieldSources: { ...current.fieldSources },
+    };
+    let didChange = false;
+
+    SYNCED_METRICS.forEach(metric => {
+      const value = reading[metric];
+      if (value === undefined || value === null) return;
+
+      const isManual = current[metric] !== null && !current.fieldSources[metric];
+      if (isManual) return;
+      if (current[metric] === value && current.fieldSources[metric] === providerId) return;
+
+      next[metric] = value;
+      next.fieldUpdatedAt[metric] = syncedAt;
+      next.fieldSources[metric] = providerId;
+      didChange = true;
+    });
+
+    if (didChange) changed.push(next);
+  });
+
+  return changed;
+}
+
+/**
+ * Display name for a stored source id
+ */
+export function getSourceLabel(source: string): string {
+  return source in HEALTH_PROVIDER_LABELS ? HEALTH_PROVIDER_LABELS[source as HealthProviderId] : source;
+}
+
+/**
+ * Latest time any synced value was written (null if nothing was ever synced)
+ */
+export function getLastSyncedAt(days: DayRecord[]): string | null {
+  let lastSyncedAt: string | null = null;
+  days.forEach(day => {
+    (Object.keys(day.fieldSources) as DayMetricField[]).forEach(field => {
+      const updatedAt = day.fieldUpdatedAt[field];
+      if (updatedAt && (!lastSyncedAt || updatedAt > lastSyncedAt)) lastSyncedAt = updatedAt;
+    });
+  });
+  return lastSyncedAt;
+}
+
+/**
+ * "just now", "5m ago", "3h ago", "2d ago"
+ */
+export function formatSyncedAgo(syncedAt: string, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - new Date(syncedAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
@@ -0,0 +1,269 @@
+/**
+ * healthRecords - Plain data shapes for a day's log and user settings
+ *
+ * These mirror what the Log and Overview pages record, in a flat form
+ * that export, import and analytics code can share.
+ *
+ * TypeScript Concepts:
+ * - Interfaces for serializable records
+ * - Nullable fields for "not logged"
+ */
+
+import { calculateCalories } from '../../context/AppContext';
+import type { Rating } from '../../context/AppContext';
+import type { Food, MealEntry } from './foodLibrary';
+import type { UnitSystem } from './units';
+import type { WorkoutEntry } from './workouts';
+import type { NapEntry } from './sleep';
+import type { FlowLevel } from './cycleSymptoms';
+import type { MeasurementEntry } from './bodyMeasurements';
+import type { GoalSchedule } from './goalSchedule';
+import type { GoalVersion } from './goalHistory';
+
+/** Everything logged for one calendar date */
+export interface DayRecord {
+  /** "YYYY-MM-DD" */
+  date: string;
+  /** Body weight in lbs */
+  weight: number | null;
+  /** Macro totals in grams */
+  protein: number;
+  carbs: number;
+  fat: number;
+  /** Hours slept the night before (computed from bedtime/wake time when both are set) */
+  sleepHours: number | null;
+  /** "HH:MM" the night before */
+  bedtime: string | null;
+  /** "HH:MM" this morning */
+  wakeTime: string | null;
+  sleepQuality: Rating | null;
+  /** Naps taken this day */
+  naps: NapEntry[];
+  steps: number | null;
+  energy: Rating | null;
+  hunger: Rating | null;
+  motivation: Rating | null;
+  isPeriodDay: boolean | null;
+  flow: FlowLevel | null;
+  /** Checklist labels ticked for this day */
+  symptoms: string[];
+  /** Free-text note for the day (null if none) */
+  notes: string | null;
+  /** Picks the training-day goals from the goal schedule */
+  isTrainingDay: boolean | null;
+  /** Itemized food entries behind the macro totals */
+  entries: MealEntry[];
+  /** Exercise logged this day */
+  workouts: WorkoutEntry[];
+  /** When each metric was last changed (ISO timestamps), for sync merges */
+  fieldUpdatedAt: Partial<Record<DayMetricField, string>>;
+  /** Provider id for metrics filled by a health-data sync; missing = entered by hand */
+  fieldSources: Partial<Record<DayMetricField, string>>;
+  /** Food entries, workouts and naps deleted on this device, so a merge doesn't bring them back */
+  deletedEntryIds: string[];
+}
+
+/** Per-day metrics that can be edited independently */
+export type DayMetricField =
+  | 'weight'
+  | 'protein'
+  | 'carbs'
+  | 'fat'
+  | 'sleepHours'
+  | 'bedtime'
+  | 'wakeTime'
+  | 'sleepQuality'
+  | 'steps'
+  | 'energy'
+  | 'hunger'
+  | 'motivation'
+  | 'isPeriodDay'
+  | 'flow'
+  | 'symptoms'
+  | 'notes'
+  | 'isTrainingDay';
+
+export const DAY_METRIC_FIELDS: DayMetricField[] = [
+  'weight',
+  'protein',
+  'carbs',
+  'fat',
+  'sleepHours',
+  'bedtime',
+  'wakeTime',
+  'sleepQuality',
+  'steps',
+  'energy',
+  'hunger',
+  'motivation',
+  'isPeriodDay',
+  'flow',
+  'symptoms',
+  'notes',
+  'isTrainingDay',
+];
+
+export const DAY_METRIC_LABELS: Record<DayMetricField, string> = {
+  weight: 'Weight (lbs)',
+  protein: 'Protein (g)',
+  carbs: 'Carbs (g)',
+  fat: 'Fat (g)',
+  sleepHours: 'Sleep (hours)',
+  bedtime: 'Bedtime',
+  wakeTime: 'Wake time',
+  sleepQuality: 'Sleep quality (1-5)',
+  steps: 'Steps',
+  energy: 'Energy (1-5)',
+  hunger: 'Hunger (1-5)',
+  motivation: 'Motivation (1-5)',
+  isPeriodDay: 'Period day',
+  flow: 'Flow',
+  symptoms: 'Symptoms',
+  notes: 'Notes',
+  isTrainingDay: 'Training day',
+};
+
+/** Daily targets edited in GoalEditor */
+export interface GoalSettings {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  steps: number;
+  sleep: number;
+}
+
+/** Sex used by BMR formulas */
+export type BiologicalSex = 'female' | 'male';
+
+/** Day-to-day activity outside of logged steps */
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very-active';
+
+/** Values edited in ProfileField */
+export interface ProfileSettings {
+  age: number | null;
+  height: { feet: number; inches: number } | null;
+  /** Weight in lbs */
+  weight: number | null;
+  sex: BiologicalSex | null;
+  activityLevel: ActivityLevel | null;
+  /** Body fat percentage, if known */
+  bodyFatPercent: number | null;
+  /** How weight and height are shown; stored values stay lbs and ft/in */
+  unitSystem: UnitSystem;
+  /** Add calories burned in workouts to the day's calorie budget */
+  addExerciseCalories: boolean;
+}
+
+/** Values edited in CycleField */
+export interface CycleSettings {
+  cycleLength: number | null;
+  averagePeriodDays: number | null;
+  /** "YYYY-MM-DD" */
+  lastPeriodStart: string | null;
+}
+
+/** Everything the user has entered */
+export interface HealthData {
+  days: DayRecord[];
+  goals: GoalSettings;
+  goalSchedule: GoalSchedule;
+  /** Past and current goals by effective date */
+  goalHistory: GoalVersion[];
+  profile: ProfileSettings;
+  cycleSettings: CycleSettings;
+  /** Symptoms offered on the daily log */
+  symptomChecklist: string[];
+  /** Tape measurements and body-fat entries */
+  measurements: MeasurementEntry[];
+  foods: Food[];
+}
+
+/**
+ * Empty record for a date with nothing logged
+ */
+export function createEmptyDay(date: string): DayRecord {
+  return {
+    date,
+    weight: null,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    sleepHours: null,
+    bedtime: null,
+    wakeTime: null,
+    sleepQuality: null,
+    naps: [],
+    steps: null,
+    energy: null,
+    hunger: null,
+    motivation: null,
+    isPeriodDay: null,
+    flow: null,
+    symptoms: [],
+    notes: null,
+    isTrainingDay: null,
+    entries: [],
+    workouts: [],
+    fieldUpdatedAt: {},
+    fieldSources: {},
+    deletedEntryIds: [],
+  };
+}
+
+/**
+ * Fill in fields missing from older or partial records
+ */
+export function normalizeDayRecord(day: Pick<DayRecord, 'date'> & Partial<DayRecord>): DayRecord {
+  return { ...createEmptyDay(day.date), ...day };
+}
+
+/**
+ * Whether any food was logged (unlogged nutrition is 0, not a real value)
+ */
+export function hasFood(day: DayRecord): boolean {
+  return calculateCalories(day.protein, day.carbs, day.fat) > 0;
+}
+
+/**
+ * Whether a weigh-in should replace the one already kept for its date
+ * (keptTime null if none yet). Imports and syncs all keep the day's
+ * earliest (morning) reading; readings without a time ('') only fill an
+ * empty day, and ties keep the first one read. Times compare as strings,
+ * so a source must use one format throughout.
+ */
+export function replacesWeighIn(time: string, keptTime: string | null): boolean {
+  if (keptTime === null) return true;
+  if (time === '') return false;
+  return keptTime === '' || time < keptTime;
+}
+
+/**
+ * Whether two field values are the same (symptom lists compare by content)
+ */
+export function isSameFieldValue(a: DayRecord[DayMetricField], b: DayRecord[DayMetricField]): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every(item => b.includes(item));
+  }
+  return a === b;
+}
+
+/**
+ * Set a metric and stamp when it changed.
+ * Counts as a manual entry, so any synced source is cleared.
+ */
+export function setDayField<F extends DayMetricField>(
+  day: DayRecord,
+  field: F,
+  value: DayRecord[F],
+  now: Date = new Date()
+): DayRecord {
+  const fieldSources = { ...day.fieldSources };
+  delete fieldSources[field];
+  return {
+    ...day,
+    [field]: value,
+    fieldUpdatedAt: { ...day.fieldUpdatedAt, [field]: now.toISOString() },
+    fieldSources,
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * indexedDb - Shared IndexedDB plumbing for this device's local stores
+ *
+ * offlineQueue and progressPhotos each keep their own database; this opens
+ * it once, creates missing object stores on upgrade, and runs single-store
+ * operations that resolve only after the transaction commits.
+ *
+ * TypeScript Concepts:
+ * - Promise wrappers around IndexedDB callbacks
+ * - Factory functions closing over a cached connection
+ */
+
+/** A database's object stores, by name -> key path */
+export type StoreKeyPaths = Record<string, string>;
+
+export interface LocalDatabase {
+  /**
+   * Run an operation against one store in its own transaction. Resolves
+   * with the request's result once the transaction completes; rejects if
+   * it errors or aborts.
+   */
+  withStore: <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ) => Promise<T>;
+}
+
+/**
+ * A lazily opened database with the given stores
+ */
+export function createLocalDatabase(name: string, version: number, stores: StoreKeyPaths): LocalDatabase {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          Object.entries(stores).forEach(([storeName, keyPath]) => {
+            if (!db.objectStoreNames.contains(storeName)) {
+              db.createObjectStore(storeName, { keyPath });
+            }
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDb();
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onabort = () => reject(transaction.error ?? request.error);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+    });
+  };
+
+  return { withStore };
+}
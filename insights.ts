@@ -0,0 +1,317 @@
+/**
+ * insights - Correlations between ratings, sleep, activity and nutrition
+ *
+ * Each pair compares one daily value with another, either on the same
+ * day or a day later (lag). A finding is only reported when there are
+ * enough days with both values and the correlation is unlikely to be
+ * noise (Fisher z test at ~99%, since many pairs are tested at once);
+ * everything else is listed with its sample size and why there's no
+ * finding yet.
+ *
+ * Cycle phase is categorical, so it's compared as average rating per
+ * phase instead of a correlation.
+ *
+ * TypeScript Concepts:
+ * - Data-driven definitions with accessor functions
+ * - Discriminated unions for result kinds
+ */
+
+import { calculateCalories } from '../../context/AppContext';
+import type { CyclePhase } from '../../context/AppContext';
+import { addDays } from './dateKeys';
+import {
+  CYCLE_PHASE_LABELS,
+  CYCLE_PHASE_NAMES,
+  getCycleHistory,
+  getCyclePosition,
+  getCycleStats,
+  getPeriodStarts,
+} from './cycleTracking';
+import { hasFood } from './healthRecords';
+import type { CycleSettings, DayRecord } from './healthRecords';
+
+/** Days with both values needed before we say anything */
+export const MIN_INSIGHT_SAMPLES = 14;
+
+/** Weakest correlation worth mentioning */
+const MIN_ABS_CORRELATION = 0.2;
+
+/** |z| (or Welch |t|) for ~99% confidence */
+const Z_CRITICAL = 2.58;
+
+/** Days per phase needed for a phase comparison */
+const MIN_PHASE_SAMPLES = 5;
+
+/** Smallest rating difference between phases worth mentioning */
+const MIN_PHASE_DIFFERENCE = 0.5;
+
+export type CorrelationStrength = 'weak' | 'moderate' | 'strong';
+
+type RatingField = 'energy' | 'hunger' | 'motivation';
+
+/** One value to compare, read from a day record */
+interface InsightMetric {
+  label: string;
+  /** Lowercase name for sentences */
+  noun: string;
+  value: (day: DayRecord) => number | null;
+}
+
+/** A pair to test: x on a day vs y `lagDays` later */
+interface CorrelationPair {
+  id: string;
+  x: InsightMetric;
+  y: InsightMetric;
+  lagDays: 0 | 1;
+  /** Sentence start for the x side, e.g. "After more sleep" */
+  lead: string;
+}
+
+/** Result for a pair or phase comparison */
+export type Insight =
+  | {
+      kind: 'correlation';
+      id: string;
+      title: string;
+      summary: string;
+      sampleSize: number;
+      correlation: number;
+      strength: CorrelationStrength;
+    }
+  | {
+      kind: 'phase';
+      id: string;
+      title: string;
+      summary: string;
+      sampleSize: number;
+      averages: { phase: CyclePhase; label: string; average: number; count: number }[];
+    };
+
+/** A pair we couldn't draw a conclusion from */
+export interface PendingInsight {
+  id: string;
+  title: string;
+  sampleSize: number;
+  /** Why nothing is shown yet */
+  reason: 'not-enough-data' | 'no-clear-pattern';
+}
+
+export interface InsightReport {
+  insights: Insight[];
+  pending: PendingInsight[];
+}
+
+const METRICS: Record<string, InsightMetric> = {
+  sleep: { label: 'Sleep', noun: 'sleep', value: (day) => day.sleepHours },
+  energy: { label: 'Energy', noun: 'energy', value: (day) => day.energy },
+  hunger: { label: 'Hunger', noun: 'hunger', value: (day) => day.hunger },
+  motivation: { label: 'Motivation', noun: 'motivation', value: (day) => day.motivation },
+  steps: { label: 'Steps', noun: 'steps', value: (day) => day.steps },
+  // Unlogged nutrition is 0, which would look like fasting
+  carbs: { label: 'Carbs', noun: 'carbs', value: (day) => (hasFood(day) ? day.carbs : null) },
+  protein: { label: 'Protein', noun: 'protein', value: (day) => (hasFood(day) ? day.protein : null) },
+  calories: {
+    label: 'Calories',
+    noun: 'calories',
+    value: (day) => (hasFood(day) ? calculateCalories(day.protein, day.carbs, day.fat) : null),
+  },
+};
+
+/** Pairs to test, in display order */
+const CORRELATION_PAIRS: CorrelationPair[] = [
+  { id: 'sleep-energy', x: METRICS.sleep, y: METRICS.energy, lagDays: 0, lead: 'After more sleep' },
+  { id: 'sleep-hunger', x: METRICS.sleep, y: METRICS.hunger, lagDays: 0, lead: 'After more sleep' },
+  { id: 'sleep-motivation', x: METRICS.sleep, y: METRICS.motivation, lagDays: 0, lead: 'After more sleep' },
+  { id: 'carbs-hunger', x: METRICS.carbs, y: METRICS.hunger, lagDays: 0, lead: 'On higher-carb days' },
+  { id: 'protein-hunger', x: METRICS.protein, y: METRICS.hunger, lagDays: 0, lead: 'On higher-protein days' },
+  { id: 'calories-hunger-next', x: METRICS.calories, y: METRICS.hunger, lagDays: 1, lead: 'The day after eating more' },
+  { id: 'carbs-energy-next', x: METRICS.carbs, y: METRICS.energy, lagDays: 1, lead: 'The day after more carbs' },
+  { id: 'steps-sleep-next', x: METRICS.steps, y: METRICS.sleep, lagDays: 1, lead: 'After more active days' },
+  { id: 'steps-energy', x: METRICS.steps, y: METRICS.energy, lagDays: 0, lead: 'On more active days' },
+];
+
+const PHASE_RATINGS: RatingField[] = ['motivation', 'energy', 'hunger'];
+
+/**
+ * Pearson correlation coefficient (null if either side has no variance)
+ */
+export function pearsonCorrelation(pairs: [number, number][]): number | null {
+  const n = pairs.length;
+  if (n < 3) return null;
+
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  pairs.forEach(([x, y]) => {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  });
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Whether r is distinguishable from zero at ~99% for this sample size
+ */
+export function isSignificant(r: number, n: number): boolean {
+  if (n <= 3 || Math.abs(r) >= 1) return Math.abs(r) >= 1;
+  return Math.abs(Math.atanh(r) * Math.sqrt(n - 3)) >= Z_CRITICAL;
+}
+
+/**
+ * Label for |r|
+ */
+export function getCorrelationStrength(r: number): CorrelationStrength {
+  const abs = Math.abs(r);
+  if (abs >= 0.5) return 'strong';
+  if (abs >= 0.3) return 'moderate';
+  return 'weak';
+}
+
+/**
+ * Title for a pair, e.g. "Sleep → next-day energy"
+ */
+function getPairTitle(pair: CorrelationPair): string {
+  return pair.lagDays === 1
+    ? `${pair.x.label} → next-day ${pair.y.noun}`
+    : `${pair.x.label} vs ${pair.y.noun}`;
+}
+
+/**
+ * x/y values for a pair, matching each day with the day `lagDays` later
+ */
+function collectPairs(days: DayRecord[], pair: CorrelationPair): [number, number][] {
+  const byDate = new Map(days.map(day => [day.date, day]));
+  const values: [number, number][] = [];
+
+  days.forEach(day => {
+    const later = pair.lagDays === 0 ? day : byDate.get(addDays(day.date, pair.lagDays));
+    if (!later) return;
+    const x = pair.x.value(day);
+    const y = pair.y.value(later);
+    if (x !== null && y !== null) values.push([x, y]);
+  });
+
+  return values;
+}
+
+/**
+ * Test one pair
+ */
+function analyzePair(days: DayRecord[], pair: CorrelationPair): Insight | PendingInsight {
+  const title = getPairTitle(pair);
+  const values = collectPairs(days, pair);
+  const sampleSize = values.length;
+
+  if (sampleSize < MIN_INSIGHT_SAMPLES) {
+    return { id: pair.id, title, sampleSize, reason: 'not-enough-data' };
+  }
+
+  const r = pearsonCorrelation(values);
+  if (r === null || Math.abs(r) < MIN_ABS_CORRELATION || !isSignificant(r, sampleSize)) {
+    return { id: pair.id, title, sampleSize, reason: 'no-clear-pattern' };
+  }
+
+  const strength = getCorrelationStrength(r);
+  const direction = r > 0 ? 'higher' : 'lower';
+  return {
+    kind: 'correlation',
+    id: pair.id,
+    title,
+    summary: `${pair.lead}, your ${pair.y.noun} tends to be ${direction} (${strength}, r = ${r.toFixed(2)}, ${sampleSize} days).`,
+    sampleSize,
+    correlation: r,
+    strength,
+  };
+}
+
+/**
+ * Average rating per cycle phase; reports the highest vs lowest phase
+ */
+function analyzePhaseRating(
+  days: DayRecord[],
+  field: RatingField,
+  cycleSettings: CycleSettings
+): Insight | PendingInsight {
+  const id = `phase-${field}`;
+  const noun = METRICS[field].noun;
+  const title = `Cycle phase vs ${noun}`;
+  const periodStarts = getPeriodStarts(days, cycleSettings);
+
+  const byPhase = new Map<CyclePhase, number[]>();
+  days.forEach(day => {
+    const rating = day[field];
+    if (rating === null) return;
+    const position = getCyclePosition(day.date, periodStarts, cycleSettings);
+    if (!position) return;
+    byPhase.set(position.phase, [...(byPhase.get(position.phase) ?? []), rating]);
+  });
+
+  const stats = CYCLE_PHASE_NAMES
+    .map(phase => {
+      const ratings = byPhase.get(phase) ?? [];
+      const average = ratings.reduce((sum, r) => sum + r, 0) / (ratings.length || 1);
+      const variance = ratings.reduce((sum, r) => sum + (r - average) ** 2, 0) / Math.max(ratings.length - 1, 1);
+      return { phase, label: CYCLE_PHASE_LABELS[phase], average, variance, count: ratings.length };
+    })
+    .filter(entry => entry.count >= MIN_PHASE_SAMPLES);
+  const averages = stats.map(({ phase, label, average, count }) => ({ phase, label, average, count }));
+  const sampleSize = averages.reduce((sum, entry) => sum + entry.count, 0);
+
+  if (stats.length < 2) {
+    return { id, title, sampleSize, reason: 'not-enough-data' };
+  }
+
+  const highest = stats.reduce((a, b) => (b.average > a.average ? b : a));
+  const lowest = stats.reduce((a, b) => (b.average < a.average ? b : a));
+  const difference = highest.average - lowest.average;
+  const standardError = Math.sqrt(highest.variance / highest.count + lowest.variance / lowest.count);
+  const isClear = standardError === 0 || difference / standardError >= Z_CRITICAL;
+  if (difference < MIN_PHASE_DIFFERENCE || !isClear) {
+    return { id, title, sampleSize, reason: 'no-clear-pattern' };
+  }
+
+  const capitalized = noun.charAt(0).toUpperCase() + noun.slice(1);
+  return {
+    kind: 'phase',
+    id,
+    title,
+    summary:
+      `${capitalized} averages ${highest.average.toFixed(1)} in your ${highest.label.toLowerCase()} phase ` +
+      `vs ${lowest.average.toFixed(1)} in your ${lowest.label.toLowerCase()} phase ` +
+      `(${highest.count} and ${lowest.count} days).`,
+    sampleSize,
+    averages,
+  };
+}
+
+/**
+ * All insights over the user's history, strongest correlations first
+ */
+export function buildInsightReport(days: DayRecord[], cycleSettings: CycleSettings | null): InsightReport {
+  const results: (Insight | PendingInsight)[] = CORRELATION_PAIRS.map(pair => analyzePair(days, pair));
+
+  // Phase comparisons only for users tracking their cycle
+  const tracksCycle = !!cycleSettings && (!!cycleSettings.lastPeriodStart || days.some(day => day.isPeriodDay));
+  if (tracksCycle) {
+    // Phases follow the cycle length learned from logged periods
+    const stats = getCycleStats(getCycleHistory(days, cycleSettings), cycleSettings);
+    const learnedSettings = { ...cycleSettings, cycleLength: stats.cycleLength, averagePeriodDays: stats.periodDays };
+    PHASE_RATINGS.forEach(field => results.push(analyzePhaseRating(days, field, learnedSettings)));
+  }
+
+  const insights = results
+    .filter((result): result is Insight => 'kind' in result)
+    .sort((a, b) => {
+      const strengthA = a.kind === 'correlation' ? Math.abs(a.correlation) : 0;
+      const strengthB = b.kind === 'correlation' ? Math.abs(b.correlation) : 0;
+      return strengthB - strengthA;
+    });
+  const pending = results.filter((result): result is PendingInsight => !('kind' in result));
+
+  return { insights, pending };
+}
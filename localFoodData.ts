@@ -0,0 +1,33 @@
+/**
+ * localFoodData - Bundled barcode dataset for offline food import
+ *
+ * Rows follow the Open Food Facts per-serving fields we use. This ships a
+ * small starter set; regenerate it from a full export to cover more products.
+ *
+ * TypeScript Concepts:
+ * - Typed constant data
+ * - Optional fields
+ */
+
+export interface LocalFoodRecord {
+  /** UPC-A or EAN-13 barcode */
+  upc: string;
+  name: string;
+  brand?: string;
+  servingSize: string;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+}
+
+export const LOCAL_FOOD_DATA: LocalFoodRecord[] = [
+  { upc: '000000000017', name: 'Plain nonfat Greek yogurt', servingSize: '1 container (170 g)', protein: 17, carbs: 6, fat: 0, fiber: 0 },
+  { upc: '000000000024', name: 'Rolled oats', servingSize: '1/2 cup (40 g)', protein: 5, carbs: 27, fat: 3, fiber: 4 },
+  { upc: '000000000031', name: 'Large eggs', servingSize: '1 egg (50 g)', protein: 6, carbs: 0, fat: 5, fiber: 0 },
+  { upc: '000000000048', name: 'Chicken breast, boneless skinless', servingSize: '4 oz (112 g)', protein: 26, carbs: 0, fat: 1.5, fiber: 0 },
+  { upc: '000000000055', name: 'Whey protein powder', servingSize: '1 scoop (31 g)', protein: 24, carbs: 3, fat: 1.5 },
+  { upc: '000000000062', name: 'Peanut butter, creamy', servingSize: '2 tbsp (32 g)', protein: 7, carbs: 7, fat: 16, fiber: 2 },
+  { upc: '000000000079', name: 'Cooked white rice', servingSize: '1 cup (158 g)', protein: 4, carbs: 45, fat: 0.4, fiber: 0.6 },
+  { upc: '000000000086', name: 'Whole wheat bread', servingSize: '1 slice (28 g)', protein: 4, carbs: 12, fat: 1, fiber: 2 },
+];
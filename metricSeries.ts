@@ -0,0 +1,246 @@
+/**
+ * metricSeries - Chart data for any daily metric
+ *
+ * Builds one point per logged date with the chosen metrics, the goal
+ * in force that day (goal history + schedule) and per-macro calories
+ * for the stacked macro view. Range filtering and weekly downsampling
+ * reuse chartRange, same as WeightChart.
+ *
+ * TypeScript Concepts:
+ * - Record lookup tables keyed by a union
+ * - Index signatures for dynamic series keys
+ */
+
+import { calculateCalories } from '../../context/AppContext';
+import { downsampleForChart, filterByRange } from './chartRange';
+import type { ChartRange, CustomDateRange } from './chartRange';
+import type { PhaseLookup } from './cycleTracking';
+import { formatShortDate } from './dateKeys';
+import { resolveGoalsOnDate } from './goalHistory';
+import type { GoalValues, GoalVersion } from './goalHistory';
+import { hasFood } from './healthRecords';
+import type { DayRecord, GoalSettings } from './healthRecords';
+import { WEIGHT_UNITS, toDisplayWeight } from './units';
+import type { UnitSystem } from './units';
+
+/** Metrics that can be charted */
+export type ChartMetric =
+  | 'calories'
+  | 'protein'
+  | 'carbs'
+  | 'fat'
+  | 'weight'
+  | 'sleepHours'
+  | 'sleepQuality'
+  | 'steps'
+  | 'energy'
+  | 'hunger'
+  | 'motivation';
+
+/** Per-macro calorie keys for the stacked view */
+export type MacroCalorieKey = 'proteinKcal' | 'carbsKcal' | 'fatKcal';
+
+export interface ChartMetricConfig {
+  label: string;
+  /** Unit shown on the axis and tooltip */
+  unit: string;
+  decimals: number;
+  /** Goal drawn as a reference line, if any */
+  goalKey?: keyof GoalSettings;
+  /** Fixed axis range (ratings) */
+  domain?: [number, number];
+  /** Bars for totals, lines for levels */
+  chartType: 'bar' | 'line';
+  color: string;
+  value: (day: DayRecord, unitSystem: UnitSystem) => number | null;
+}
+
+/** One chart point; metric values and `goal_<metric>` keys are added dynamically */
+export interface MetricPoint {
+  date: string; // "MM/DD"
+  fullDate: string; // "YYYY-MM-DD"
+  [key: string]: number | string | null;
+}
+
+export interface MetricSeries {
+  points: MetricPoint[];
+  /** True when points are weekly averages */
+  isWeekly: boolean;
+}
+
+export const CHART_METRICS: Record<ChartMetric, ChartMetricConfig> = {
+  calories: {
+    label: 'Calories',
+    unit: 'kcal',
+    decimals: 0,
+    goalKey: 'calories',
+    chartType: 'bar',
+    color: 'var(--color-gradient-start)',
+    value: (day) => (hasFood(day) ? calculateCalories(day.protein, day.carbs, day.fat) : null),
+  },
+  protein: {
+    label: 'Protein',
+    unit: 'g',
+    decimals: 0,
+    goalKey: 'protein',
+    chartType: 'bar',
+    color: 'var(--color-chart-protein)',
+    value: (day) => (hasFood(day) ? day.protein : null),
+  },
+  carbs: {
+    label: 'Carbs',
+    unit: 'g',
+    decimals: 0,
+    goalKey: 'carbs',
+    chartType: 'bar',
+    color: 'var(--color-chart-carbs)',
+    value: (day) => (hasFood(day) ? day.carbs : null),
+  },
+  fat: {
+    label: 'Fat',
+    unit: 'g',
+    decimals: 0,
+    goalKey: 'fat',
+    chartType: 'bar',
+    color: 'var(--color-chart-fat)',
+    value: (day) => (hasFood(day) ? day.fat : null),
+  },
+  weight: {
+    label: 'Weight',
+    unit: 'lbs',
+    decimals: 1,
+    chartType: 'line',
+    color: 'var(--color-gradient-end)',
+    value: (day, unitSystem) => (day.weight === null ? null : toDisplayWeight(day.weight, unitSystem)),
+  },
+  sleepHours: {
+    label: 'Sleep',
+    unit: 'h',
+    decimals: 1,
+    goalKey: 'sleep',
+    chartType: 'bar',
+    color: 'var(--color-chart-sleep)',
+    value: (day) => day.sleepHours,
+  },
+  sleepQuality: {
+    label: 'Sleep quality',
+    unit: '/5',
+    decimals: 1,
+    domain: [1, 5],
+    chartType: 'line',
+    color: 'var(--color-chart-sleep)',
+    value: (day) => day.sleepQuality,
+  },
+  steps: {
+    label: 'Steps',
+    unit: 'steps',
+    decimals: 0,
+    goalKey: 'steps',
+    chartType: 'bar',
+    color: 'var(--color-success)',
+    value: (day) => day.steps,
+  },
+  energy: {
+    label: 'Energy',
+    unit: '/5',
+    decimals: 1,
+    domain: [1, 5],
+    chartType: 'line',
+    color: 'var(--color-gradient-start)',
+    value: (day) => day.energy,
+  },
+  hunger: {
+    label: 'Hunger',
+    unit: '/5',
+    decimals: 1,
+    domain: [1, 5],
+    chartType: 'line',
+    color: 'var(--color-chart-carbs)',
+    value: (day) => day.hunger,
+  },
+  motivation: {
+    label: 'Motivation',
+    unit: '/5',
+    decimals: 1,
+    domain: [1, 5],
+    chartType: 'line',
+    color: 'var(--color-gradient-end)',
+    value: (day) => day.motivation,
+  },
+};
+
+/** Dropdown order */
+export const CHART_METRIC_OPTIONS: { value: ChartMetric; label: string }[] = (
+  Object.keys(CHART_METRICS) as ChartMetric[]
+).map(metric => ({ value: metric, label: CHART_METRICS[metric].label }));
+
+export const MACRO_CALORIE_KEYS: { key: MacroCalorieKey; label: string; color: string }[] = [
+  { key: 'proteinKcal', label: 'Protein', color: CHART_METRICS.protein.color },
+  { key: 'carbsKcal', label: 'Carbs', color: CHART_METRICS.carbs.color },
+  { key: 'fatKcal', label: 'Fat', color: CHART_METRICS.fat.color },
+];
+
+/**
+ * Config with the unit adjusted for the user's preference
+ */
+export function getMetricConfig(metric: ChartMetric, unitSystem: UnitSystem): ChartMetricConfig {
+  const config = CHART_METRICS[metric];
+  return metric === 'weight' ? { ...config, unit: WEIGHT_UNITS[unitSystem] } : config;
+}
+
+/**
+ * Key holding a metric's goal on each point
+ */
+export function getGoalKey(metric: ChartMetric): string {
+  return `goal_${metric}`;
+}
+
+/**
+ * Points for the chosen metrics over a range, oldest first.
+ * Days where none of the metrics were logged are skipped; long spans
+ * are averaged per week.
+ */
+export function buildMetricSeries(
+  days: DayRecord[],
+  metrics: ChartMetric[],
+  range: ChartRange,
+  customRange: CustomDateRange | null,
+  goalHistory: GoalVersion[],
+  currentGoals: GoalValues,
+  unitSystem: UnitSystem,
+  includeMacroCalories: boolean = false,
+  phaseOf: PhaseLookup | null = null
+): MetricSeries {
+  const points: MetricPoint[] = [...days]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(day => {
+      const point: MetricPoint = { date: formatShortDate(day.date), fullDate: day.date };
+      const phase = phaseOf?.(day.date) ?? null;
+      const dayGoals = resolveGoalsOnDate(goalHistory, currentGoals, day.date, day.isTrainingDay, phase).goals;
+
+      metrics.forEach(metric => {
+        const config = CHART_METRICS[metric];
+        point[metric] = config.value(day, unitSystem);
+        if (config.goalKey) point[getGoalKey(metric)] = dayGoals[config.goalKey];
+      });
+
+      if (includeMacroCalories) {
+        const logged = hasFood(day);
+        point.proteinKcal = logged ? calculateCalories(day.protein, 0, 0) : null;
+        point.carbsKcal = logged ? calculateCalories(0, day.carbs, 0) : null;
+        point.fatKcal = logged ? calculateCalories(0, 0, day.fat) : null;
+      }
+
+      return point;
+    })
+    .filter(point => metrics.some(metric => point[metric] !== null));
+
+  const valueKeys = [
+    ...metrics,
+    ...metrics.filter(metric => CHART_METRICS[metric].goalKey).map(getGoalKey),
+    ...(includeMacroCalories ? MACRO_CALORIE_KEYS.map(entry => entry.key) : []),
+  ];
+
+  const rangePoints = filterByRange(points, range, customRange);
+  return downsampleForChart(rangePoints, valueKeys);
+}
@@ -0,0 +1,165 @@
+/**
+ * nutritionImport - Parse pasted nutrition-facts text and look up barcodes offline
+ *
+ * TypeScript Concepts:
+ * - Regular expressions with capture groups
+ * - Map lookups for fast offline search
+ * - Discriminated result types
+ */
+
+import type { FoodInput } from './foodLibrary';
+import { LOCAL_FOOD_DATA } from './localFoodData';
+import type { LocalFoodRecord } from './localFoodData';
+
+/** Fields read from a label (null if not found) */
+export interface ParsedNutritionLabel {
+  servingSize: string | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+}
+
+/** Result of an import, ready to pre-fill FoodForm */
+export type NutritionImportResult =
+  | { ok: true; food: Partial<FoodInput>; missing: (keyof ParsedNutritionLabel)[] }
+  | { ok: false; error: string };
+
+/**
+ * Patterns for each field, tried in order. Lines like "Saturated Fat"
+ * and "Total Sugars" are excluded by anchoring on the start of a line.
+ */
+const LABEL_PATTERNS: Record<Exclude<keyof ParsedNutritionLabel, 'servingSize'>, RegExp[]> = {
+  protein: [/^\s*protein\s*:?\s*(\d+(?:\.\d+)?)\s*g/im],
+  carbs: [
+    /^\s*total\s+carb(?:ohydrate)?s?\.?\s*:?\s*(\d+(?:\.\d+)?)\s*g/im,
+    /^\s*carb(?:ohydrate)?s?\s*:?\s*(\d+(?:\.\d+)?)\s*g/im,
+  ],
+  fat: [
+    /^\s*total\s+fat\s*:?\s*(\d+(?:\.\d+)?)\s*g/im,
+    /^\s*fat\s*:?\s*(\d+(?:\.\d+)?)\s*g/im,
+  ],
+  fiber: [/^\s*(?:dietary\s+)?fib(?:er|re)\s*:?\s*(\d+(?:\.\d+)?)\s*g/im],
+};
+
+const SERVING_SIZE_PATTERN = /serving\s+size\s*:?\s*([^\n]+)/i;
+
+/**
+ * First numeric capture among the patterns, or null
+ */
+function matchGrams(text: string, patterns: RegExp[]): number | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return parseFloat(match[1]);
+  }
+  return null;
+}
+
+/**
+ * Read serving size and macros out of pasted nutrition-facts text.
+ * Handles the US label layout and "Carbs: 20g" style shorthand;
+ * "<1g" is read as 1g.
+ */
+export function parseNutritionLabel(text: string): ParsedNutritionLabel {
+  const normalized = text.replace(/</g, '').replace(/\r/g, '');
+  const servingMatch = normalized.match(SERVING_SIZE_PATTERN);
+
+  return {
+    servingSize: servingMatch ? servingMatch[1].trim() : null,
+    protein: matchGrams(normalized, LABEL_PATTERNS.protein),
+    carbs: matchGrams(normalized, LABEL_PATTERNS.carbs),
+    fat: matchGrams(normalized, LABEL_PATTERNS.fat),
+    fiber: matchGrams(normalized, LABEL_PATTERNS.fiber),
+  };
+}
+
+/**
+ * Turn pasted label text into FoodForm starting values
+ */
+export function importFromLabelText(text: string): NutritionImportResult {
+  if (!text.trim()) {
+    return { ok: false, error: 'Paste the nutrition facts text first' };
+  }
+
+  const parsed = parseNutritionLabel(text);
+  const missing = (Object.keys(parsed) as (keyof ParsedNutritionLabel)[])
+    .filter(key => parsed[key] === null);
+
+  if (parsed.protein === null && parsed.carbs === null && parsed.fat === null) {
+    return { ok: false, error: 'Couldn\'t find protein, carbs or fat in that text' };
+  }
+
+  return {
+    ok: true,
+    missing,
+    food: {
+      ...(parsed.servingSize !== null && { servingSize: parsed.servingSize }),
+      ...(parsed.protein !== null && { protein: parsed.protein }),
+      ...(parsed.carbs !== null && { carbs: parsed.carbs }),
+      ...(parsed.fat !== null && { fat: parsed.fat }),
+      ...(parsed.fiber !== null && { fiber: parsed.fiber }),
+    },
+  };
+}
+
+/**
+ * Normalize a UPC-A / EAN-13 code to 13 digits, or null if invalid.
+ * Validates the GS1 check digit so typos don't match the wrong food.
+ */
+export function normalizeUpc(input: string): string | null {
+  const digits = input.replace(/\D/g, '');
+  if (digits.length !== 12 && digits.length !== 13) return null;
+
+  const code = digits.padStart(13, '0');
+  const body = code.slice(0, 12).split('').map(Number);
+  const sum = body.reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 3), 0);
+  const checkDigit = (10 - (sum % 10)) % 10;
+
+  return checkDigit === Number(code[12]) ? code : null;
+}
+
+/** Index of the bundled dataset by normalized barcode */
+let upcIndex: Map<string, LocalFoodRecord> | null = null;
+
+/**
+ * Build the barcode index on first lookup
+ */
+function getUpcIndex(): Map<string, LocalFoodRecord> {
+  if (!upcIndex) {
+    upcIndex = new Map();
+    LOCAL_FOOD_DATA.forEach(record => {
+      const code = normalizeUpc(record.upc);
+      if (code) upcIndex!.set(code, record);
+    });
+  }
+  return upcIndex;
+}
+
+/**
+ * Look up a barcode in the bundled dataset (works offline)
+ */
+export function importFromUpc(input: string): NutritionImportResult {
+  const code = normalizeUpc(input);
+  if (!code) {
+    return { ok: false, error: 'Enter a valid 12 or 13 digit barcode' };
+  }
+
+  const record = getUpcIndex().get(code);
+  if (!record) {
+    return { ok: false, error: 'Barcode not found in the offline food list' };
+  }
+
+  return {
+    ok: true,
+    missing: record.fiber === undefined ? ['fiber'] : [],
+    food: {
+      name: record.brand ? `${record.name} (${record.brand})` : record.name,
+      servingSize: record.servingSize,
+      protein: record.protein,
+      carbs: record.carbs,
+      fat: record.fat,
+      ...(record.fiber !== undefined && { fiber: record.fiber }),
+      upc: code,
+    },
+  };
+}
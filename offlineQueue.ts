@@ -0,0 +1,282 @@
+/**
+ * offlineQueue - IndexedDB-backed queue of pending writes
+ *
+ * Every save is recorded here first, applied to local state right away,
+ * then sent to the server in order. Failed sends retry with exponential
+ * backoff; after MAX_ATTEMPTS they are marked failed until retried.
+ *
+ * The same database keeps when each date last matched the server, which
+ * dayMerge uses to tell which side edited a field.
+ *
+ * TypeScript Concepts:
+ * - Mapped types for kind -> payload
+ * - Generic functions over a union of kinds
+ */
+
+import type { Rating } from '../../context/AppContext';
+import { createLocalDatabase } from './indexedDb';
+import type { GoalSettings, ProfileSettings, CycleSettings, DayMetricField, DayRecord } from './healthRecords';
+import type { MealEntry } from './foodLibrary';
+import type { GoalSchedule } from './goalSchedule';
+import type { GoalVersion } from './goalHistory';
+import type { WorkoutEntry } from './workouts';
+import type { NapEntry } from './sleep';
+import type { MeasurementEntry } from './bodyMeasurements';
+
+/** Payload for each kind of write */
+export interface MutationPayloads {
+  saveGoal: { key: keyof GoalSettings; value: number };
+  saveGoalSchedule: { schedule: GoalSchedule };
+  saveGoalVersion: { version: GoalVersion };
+  saveProfileField: { key: keyof ProfileSettings; value: ProfileSettings[keyof ProfileSettings] };
+  saveCycleField: { key: keyof CycleSettings; value: CycleSettings[keyof CycleSettings] };
+  saveSymptomChecklist: { symptoms: string[] };
+  saveRating: { date: string; key: 'energy' | 'hunger' | 'motivation' | 'sleepQuality'; value: Rating };
+  saveDayField: { date: string; key: DayMetricField; value: DayRecord[DayMetricField] };
+  addFoodEntry: { date: string; entry: MealEntry };
+  updateFoodEntry: { date: string; entry: MealEntry };
+  deleteFoodEntry: { date: string; id: string };
+  addWorkout: { date: string; workout: WorkoutEntry };
+  updateWorkout: { date: string; workout: WorkoutEntry };
+  deleteWorkout: { date: string; id: string };
+  addNap: { date: string; nap: NapEntry };
+  deleteNap: { date: string; id: string };
+  addMeasurement: { measurement: MeasurementEntry };
+  updateMeasurement: { measurement: MeasurementEntry };
+  deleteMeasurement: { id: string };
+}
+
+export type MutationKind = keyof MutationPayloads;
+
+export type MutationStatus = 'pending' | 'failed';
+
+/** A write waiting to reach the server */
+export interface QueuedMutation<K extends MutationKind = MutationKind> {
+  id: string;
+  kind: K;
+  payload: MutationPayloads[K];
+  /** Increases with every mutation created; the queue is sent in this order */
+  seq: number;
+  /** ISO timestamp of the original change */
+  createdAt: string;
+  attempts: number;
+  status: MutationStatus;
+  /** Epoch ms before which we shouldn't retry */
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+/** Sends one mutation to the server; throws on failure */
+export type MutationSender = (mutation: QueuedMutation) => Promise<void>;
+
+const DB_NAME = 'healthlog-offline';
+const DB_VERSION = 2;
+const STORE_NAME = 'mutations';
+const SYNC_STORE_NAME = 'daySyncs';
+
+/** When a date last matched the server */
+interface DaySyncRecord {
+  /** "YYYY-MM-DD" */
+  date: string;
+  /** ISO timestamp */
+  syncedAt: string;
+}
+
+/** Retries before a mutation is marked failed */
+export const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+const db = createLocalDatabase(DB_NAME, DB_VERSION, {
+  [STORE_NAME]: 'id',
+  [SYNC_STORE_NAME]: 'date',
+});
+
+/**
+ * Run a single-store operation, resolving once the transaction commits
+ */
+function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = STORE_NAME
+): Promise<T> {
+  return db.withStore(storeName, mode, operation);
+}
+
+let lastSeq = 0;
+
+/**
+ * Next sequence number: microseconds since the epoch, bumped past the
+ * last one so two mutations in the same millisecond keep their order
+ */
+function nextSeq(now: Date): number {
+  lastSeq = Math.max(lastSeq + 1, now.getTime() * 1000);
+  return lastSeq;
+}
+
+/**
+ * Sequence number for ordering (mutations queued before seq existed fall
+ * back to their timestamp on the same scale)
+ */
+function getSeq(mutation: QueuedMutation): number {
+  return mutation.seq ?? Date.parse(mutation.createdAt) * 1000;
+}
+
+/**
+ * All queued mutations, oldest first
+ */
+export async function loadQueue(): Promise<QueuedMutation[]> {
+  const mutations = await withStore('readonly', (store) => store.getAll() as IDBRequest<QueuedMutation[]>);
+  // Keep new mutations after these even if the clock has gone backwards
+  mutations.forEach(mutation => {
+    lastSeq = Math.max(lastSeq, getSeq(mutation));
+  });
+  return mutations.sort((a, b) => getSeq(a) - getSeq(b));
+}
+
+/**
+ * Insert or update a queued mutation
+ */
+export async function putMutation(mutation: QueuedMutation): Promise<void> {
+  await withStore('readwrite', (store) => store.put(mutation));
+}
+
+/**
+ * Remove a mutation once the server has it
+ */
+export async function deleteMutation(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * When each date last matched the server, by "YYYY-MM-DD"
+ */
+export async function loadDaySyncTimes(): Promise<Record<string, string>> {
+  const records = await withStore(
+    'readonly',
+    (store) => store.getAll() as IDBRequest<DaySyncRecord[]>,
+    SYNC_STORE_NAME
+  );
+  return Object.fromEntries(records.map(record => [record.date, record.syncedAt]));
+}
+
+/**
+ * Record that these dates match the server as of syncedAt
+ */
+export async function markDaysSynced(dates: string[], syncedAt: string): Promise<void> {
+  await Promise.all(
+    dates.map(date => withStore('readwrite', (store) => store.put({ date, syncedAt }), SYNC_STORE_NAME))
+  );
+}
+
+/**
+ * The date a mutation writes to (null for settings)
+ */
+function getMutationDate(mutation: QueuedMutation): string | null {
+  return 'date' in mutation.payload ? mutation.payload.date : null;
+}
+
+/**
+ * Dates with writes still in the queue; they don't match the server yet
+ */
+export function getQueuedDates(queue: QueuedMutation[]): Set<string> {
+  return new Set(queue.map(getMutationDate).filter((date): date is string => date !== null));
+}
+
+/**
+ * Build a new pending mutation
+ */
+export function createMutation<K extends MutationKind>(
+  kind: K,
+  payload: MutationPayloads[K],
+  now: Date = new Date()
+): QueuedMutation<K> {
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    payload,
+    seq: nextSeq(now),
+    createdAt: now.toISOString(),
+    attempts: 0,
+    status: 'pending',
+    nextAttemptAt: now.getTime(),
+    lastError: null,
+  };
+}
+
+/**
+ * Exponential backoff with jitter: ~2s, 4s, 8s ... capped at 5 minutes
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(BASE_DELAY_MS * Math.pow(2, attempts - 1), MAX_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Record a failed send, scheduling the next retry or marking it failed
+ */
+export function markAttemptFailed(mutation: QueuedMutation, error: unknown, now: number = Date.now()): QueuedMutation {
+  const attempts = mutation.attempts + 1;
+  return {
+    ...mutation,
+    attempts,
+    status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+    nextAttemptAt: now + getRetryDelay(attempts),
+    lastError: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Send due mutations in order. Stops at the first one that can't be sent
+ * so later writes never overtake earlier ones to the same field.
+ * Returns the queue as it stands afterwards.
+ */
+export async function flushQueue(send: MutationSender, now: number = Date.now()): Promise<QueuedMutation[]> {
+  const queue = await loadQueue();
+
+  for (let i = 0; i < queue.length; i++) {
+    const mutation = queue[i];
+    if (mutation.status === 'failed' || mutation.nextAttemptAt > now) break;
+
+    try {
+      await send(mutation);
+      await deleteMutation(mutation.id);
+      queue.splice(i, 1);
+      i--;
+
+      // A date matches the server once none of its writes are left
+      const date = getMutationDate(mutation);
+      if (date && !getQueuedDates(queue).has(date)) {
+        await markDaysSynced([date], new Date(now).toISOString());
+      }
+    } catch (error) {
+      // Going offline mid-flush isn't the mutation's fault - don't count it
+      if (typeof navigator !== 'undefined' && !navigator.onLine) break;
+      const updated = markAttemptFailed(mutation, error, now);
+      await putMutation(updated);
+      queue[i] = updated;
+      break;
+    }
+  }
+
+  return queue;
+}
+
+/**
+ * Reset failed mutations so the next flush tries them again
+ */
+export async function retryFailed(now: number = Date.now()): Promise<void> {
+  const queue = await loadQueue();
+  await Promise.all(
+    queue
+      .filter(mutation => mutation.status === 'failed')
+      .map(mutation => putMutation({ ...mutation, status: 'pending', attempts: 0, nextAttemptAt: now }))
+  );
+}
+
+/**
+ * Drop a failed mutation the user has given up on
+ */
+export async function discardMutation(id: string): Promise<void> {
+  await deleteMutation(id);
+}
@@ -0,0 +1,142 @@
+/**
+ * phaseWeight - Cycle phase bands and phase-to-phase weight changes
+ *
+ * Water retention makes weight rise in the luteal phase and drop again
+ * once a period starts. WeightChart shades each phase so those spikes
+ * read as part of the cycle, and compares each phase with the
+ * follicular phase of the same cycle (usually the lowest), averaged
+ * over the cycles with enough weigh-ins.
+ *
+ * TypeScript Concepts:
+ * - Grouping by a composite key (cycle + phase)
+ * - Returning null when there isn't enough data
+ */
+
+import type { CyclePhase } from '../../context/AppContext';
+import { CYCLE_PHASE_LABELS, CYCLE_PHASE_NAMES, getCyclePosition } from './cycleTracking';
+import type { CycleSettings } from './healthRecords';
+import type { WeightDataPoint } from './weightTrend';
+import { roundTo } from './units';
+
+/** Phase everything else is compared with */
+export const BASELINE_PHASE: CyclePhase = 'follicular';
+
+/** Weigh-ins needed in a phase for it to count in a cycle */
+const MIN_PHASE_WEIGHINS = 2;
+
+/** Cycles needed before a phase change is reported */
+export const MIN_COMPARED_CYCLES = 2;
+
+/** A run of chart points in the same phase */
+export interface PhaseBand {
+  phase: CyclePhase;
+  /** Index of the first point in the band */
+  startIndex: number;
+  /** Index of the first point of the next band (or the last point) */
+  endIndex: number;
+}
+
+/** Average change for one phase relative to the baseline phase */
+export interface PhaseWeightChange {
+  phase: CyclePhase;
+  label: string;
+  /** Average difference from the baseline phase (same unit as the input) */
+  averageChange: number;
+  /** Cycles with enough weigh-ins in both phases */
+  cycleCount: number;
+}
+
+export interface PhaseWeightComparison {
+  changes: PhaseWeightChange[];
+  /** Phase with the largest average gain (null if none gained) */
+  highest: PhaseWeightChange | null;
+}
+
+/**
+ * Phase runs across chart points, for shading. Points without a full
+ * date or an estimable phase end the current band.
+ */
+export function getPhaseBands(
+  points: Pick<WeightDataPoint, 'fullDate'>[],
+  periodStarts: string[],
+  settings: CycleSettings
+): PhaseBand[] {
+  const bands: PhaseBand[] = [];
+  let current: PhaseBand | null = null;
+
+  points.forEach((point, index) => {
+    const phase = point.fullDate
+      ? getCyclePosition(point.fullDate, periodStarts, settings)?.phase ?? null
+      : null;
+
+    if (current && current.phase === phase) {
+      current.endIndex = index;
+      return;
+    }
+    // Close the gap so neighbouring bands touch
+    if (current) current.endIndex = index;
+    current = phase ? { phase, startIndex: index, endIndex: index } : null;
+    if (current) bands.push(current);
+  });
+
+  return bands;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Each phase's weight compared with the baseline phase of the same
+ * cycle, averaged over cycles (null until any phase has
+ * MIN_COMPARED_CYCLES cycles to compare)
+ */
+export function comparePhaseWeights(
+  data: WeightDataPoint[],
+  periodStarts: string[],
+  settings: CycleSettings
+): PhaseWeightComparison | null {
+  // periodStart -> phase -> weights
+  const byCycle = new Map<string, Map<CyclePhase, number[]>>();
+  data.forEach(point => {
+    if (!point.fullDate) return;
+    const position = getCyclePosition(point.fullDate, periodStarts, settings);
+    if (!position) return;
+
+    const phases = byCycle.get(position.periodStart) ?? new Map<CyclePhase, number[]>();
+    phases.set(position.phase, [...(phases.get(position.phase) ?? []), point.weight]);
+    byCycle.set(position.periodStart, phases);
+  });
+
+  const differences = new Map<CyclePhase, number[]>();
+  byCycle.forEach(phases => {
+    const baseline = phases.get(BASELINE_PHASE) ?? [];
+    if (baseline.length < MIN_PHASE_WEIGHINS) return;
+    const baselineAverage = average(baseline);
+
+    phases.forEach((weights, phase) => {
+      if (phase === BASELINE_PHASE || weights.length < MIN_PHASE_WEIGHINS) return;
+      differences.set(phase, [...(differences.get(phase) ?? []), average(weights) - baselineAverage]);
+    });
+  });
+
+  const changes = CYCLE_PHASE_NAMES
+    .filter(phase => (differences.get(phase)?.length ?? 0) >= MIN_COMPARED_CYCLES)
+    .map(phase => {
+      const values = differences.get(phase) as number[];
+      return {
+        phase,
+        label: CYCLE_PHASE_LABELS[phase],
+        averageChange: roundTo(average(values), 1),
+        cycleCount: values.length,
+      };
+    });
+
+  if (changes.length === 0) return null;
+
+  const highest = changes.reduce<PhaseWeightChange | null>(
+    (best, change) => (change.averageChange > 0 && (!best || change.averageChange > best.averageChange) ? change : best),
+    null
+  );
+  return { changes, highest };
+}
@@ -0,0 +1,129 @@
+/**
+ * progressPhotos - Dated progress photos stored on this device
+ *
+ * Photos are image blobs in their own IndexedDB database; they never go
+ * to the server or into backups. There's one photo per date and pose,
+ * so re-taking a front photo the same day replaces it. Each photo is
+ * matched to the weight logged that day (or within a few days) when
+ * comparing two dates.
+ *
+ * TypeScript Concepts:
+ * - Storing Blob values directly
+ */
+
+import { getWeightNear } from './bodyMeasurements';
+import { createLocalDatabase } from './indexedDb';
+import { daysBetween } from './dateKeys';
+import type { DayRecord } from './healthRecords';
+
+export type PhotoPose = 'front' | 'side' | 'back';
+
+export const PHOTO_POSE_OPTIONS: { value: PhotoPose; label: string }[] = [
+  { value: 'front', label: 'Front' },
+  { value: 'side', label: 'Side' },
+  { value: 'back', label: 'Back' },
+];
+
+export interface ProgressPhoto {
+  /** "<date>-<pose>", so a new photo replaces the old one for that slot */
+  id: string;
+  /** "YYYY-MM-DD" */
+  date: string;
+  pose: PhotoPose;
+  image: Blob;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+/** Weight change between two photo dates */
+export interface PhotoComparison {
+  /** Lbs on or near each date (null if none logged) */
+  beforeWeight: number | null;
+  afterWeight: number | null;
+  /** after - before in lbs (null unless both are known) */
+  weightChange: number | null;
+  days: number;
+}
+
+const DB_NAME = 'healthlog-photos';
+const DB_VERSION = 1;
+const STORE_NAME = 'photos';
+
+/** Larger files are likely not a photo, and fill device storage fast */
+export const MAX_PHOTO_BYTES = 20 * 1024 * 1024;
+
+const db = createLocalDatabase(DB_NAME, DB_VERSION, { [STORE_NAME]: 'id' });
+
+/**
+ * All photos, newest date first
+ */
+export async function loadPhotos(): Promise<ProgressPhoto[]> {
+  const photos = await db.withStore(STORE_NAME, 'readonly', (store) => store.getAll() as IDBRequest<ProgressPhoto[]>);
+  return sortPhotos(photos);
+}
+
+/**
+ * Insert or replace a photo (resolves once it's written)
+ */
+export async function putPhoto(photo: ProgressPhoto): Promise<void> {
+  await db.withStore(STORE_NAME, 'readwrite', (store) => store.put(photo));
+}
+
+/**
+ * Remove a photo (resolves once it's gone)
+ */
+export async function deletePhoto(id: string): Promise<void> {
+  await db.withStore(STORE_NAME, 'readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Build a photo record for a date and pose
+ */
+export function createPhoto(date: string, pose: PhotoPose, image: Blob, now: Date = new Date()): ProgressPhoto {
+  return {
+    id: `${date}-${pose}`,
+    date,
+    pose,
+    image,
+    createdAt: now.toISOString(),
+  };
+}
+
+/**
+ * Newest date first, poses in PHOTO_POSE_OPTIONS order
+ */
+export function sortPhotos(photos: ProgressPhoto[]): ProgressPhoto[] {
+  const poseOrder = PHOTO_POSE_OPTIONS.map(option => option.value);
+  return [...photos].sort((a, b) =>
+    b.date.localeCompare(a.date) || poseOrder.indexOf(a.pose) - poseOrder.indexOf(b.pose)
+  );
+}
+
+/**
+ * Dates with a photo in a pose, newest first
+ */
+export function getPhotoDates(photos: ProgressPhoto[], pose: PhotoPose): string[] {
+  return Array.from(new Set(photos.filter(photo => photo.pose === pose).map(photo => photo.date)))
+    .sort((a, b) => b.localeCompare(a));
+}
+
+/**
+ * Photo for a date and pose (null if none)
+ */
+export function findPhoto(photos: ProgressPhoto[], date: string, pose: PhotoPose): ProgressPhoto | null {
+  return photos.find(photo => photo.date === date && photo.pose === pose) ?? null;
+}
+
+/**
+ * Weights near two photo dates and the change between them
+ */
+export function comparePhotoDates(days: DayRecord[], before: string, after: string): PhotoComparison {
+  const beforeWeight = getWeightNear(days, before);
+  const afterWeight = getWeightNear(days, after);
+  return {
+    beforeWeight,
+    afterWeight,
+    weightChange: beforeWeight !== null && afterWeight !== null ? afterWeight - beforeWeight : null,
+    days: daysBetween(before, after),
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * sleep - Bed/wake times, naps and sleep consistency
+ *
+ * Times are stored as "HH:MM" (24h, what <input type="time"> gives).
+ * Bedtime is the night before the logged date, so a wake time earlier
+ * than bedtime means the night crossed midnight.
+ *
+ * Consistency is the standard deviation of bedtimes. Bedtimes are
+ * measured from noon so 11:30 PM and 12:30 AM are an hour apart, not 23.
+ *
+ * TypeScript Concepts:
+ * - String <-> number conversions with validation
+ * - Summary objects with a sample size
+ */
+
+import { addDays, parseDateKey } from './dateKeys';
+import type { DayRecord } from './healthRecords';
+import { roundTo } from './units';
+
+export interface NapEntry {
+  id: string;
+  durationMinutes: number;
+  /** "HH:MM" when the nap started (null if not given) */
+  startTime: string | null;
+  /** When the nap was logged (ISO timestamp) */
+  loggedAt: string;
+  /** When the nap was last edited (ISO timestamp, null if never) */
+  editedAt: string | null;
+}
+
+export interface SleepConsistency {
+  /** "HH:MM" average bedtime */
+  averageBedtime: string;
+  /** Standard deviation of bedtime in minutes */
+  bedtimeDeviationMinutes: number;
+  level: ConsistencyLevel;
+  /** Nights with a bedtime in the window */
+  sampleSize: number;
+}
+
+export type ConsistencyLevel = 'consistent' | 'variable' | 'irregular';
+
+export const CONSISTENCY_LABELS: Record<ConsistencyLevel, string> = {
+  consistent: 'Consistent',
+  variable: 'Somewhat variable',
+  irregular: 'Irregular',
+};
+
+/** Bedtime spread (minutes) at or under which a level applies */
+const CONSISTENCY_THRESHOLDS: { level: ConsistencyLevel; maxMinutes: number }[] = [
+  { level: 'consistent', maxMinutes: 30 },
+  { level: 'variable', maxMinutes: 60 },
+];
+
+/** Nights needed before consistency is shown */
+export const MIN_CONSISTENCY_NIGHTS = 3;
+
+/** Default window for the Overview metric */
+export const CONSISTENCY_WINDOW_DAYS = 14;
+
+const MINUTES_PER_DAY = 24 * 60;
+const NOON_MINUTES = 12 * 60;
+
+/**
+ * Minutes after midnight for "HH:MM" (null if invalid)
+ */
+export function parseTime(time: string | null): number | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * "HH:MM" for minutes after midnight (wraps past 24h)
+ */
+export function toTimeString(totalMinutes: number): string {
+  const wrapped = ((Math.round(totalMinutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = String(Math.floor(wrapped / 60)).padStart(2, '0');
+  const minutes = String(wrapped % 60).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * "HH:MM" as a local clock time, e.g. "11:30 PM"
+ */
+export function formatClockTime(time: string): string {
+  const minutes = parseTime(time);
+  if (minutes === null) return time;
+  const date = parseDateKey('2000-01-01');
+  date.setMinutes(minutes);
+  return date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Hours between bedtime and wake time, crossing midnight if needed
+ * (null unless both times are valid and different; equal times are a
+ * typo, not 24 hours of sleep)
+ */
+export function calculateSleepHours(bedtime: string | null, wakeTime: string | null): number | null {
+  const bed = parseTime(bedtime);
+  const wake = parseTime(wakeTime);
+  if (bed === null || wake === null || bed === wake) return null;
+
+  const minutes = wake > bed ? wake - bed : wake + MINUTES_PER_DAY - bed;
+  return roundTo(minutes / 60, 2);
+}
+
+/**
+ * Total nap time for a day in minutes
+ */
+export function getNapMinutes(day: Pick<DayRecord, 'naps'>): number {
+  return day.naps.reduce((sum, nap) => sum + nap.durationMinutes, 0);
+}
+
+/**
+ * Build a nap entry
+ */
+export function createNap(durationMinutes: number, startTime: string | null, now: Date = new Date()): Omit<NapEntry, 'id'> {
+  return {
+    durationMinutes,
+    startTime,
+    loggedAt: now.toISOString(),
+    editedAt: null,
+  };
+}
+
+/**
+ * Bedtime as minutes since noon, so evening and after-midnight times sort together
+ */
+function minutesSinceNoon(minutes: number): number {
+  return (minutes - NOON_MINUTES + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+/**
+ * Bedtime spread over the days up to `endDate` (null if too few nights)
+ */
+export function calculateSleepConsistency(
+  days: DayRecord[],
+  endDate: string,
+  windowDays: number = CONSISTENCY_WINDOW_DAYS
+): SleepConsistency | null {
+  const startDate = addDays(endDate, -(windowDays - 1));
+  const bedtimes = days
+    .filter(day => day.date >= startDate && day.date <= endDate)
+    .map(day => parseTime(day.bedtime))
+    .filter((minutes): minutes is number => minutes !== null)
+    .map(minutesSinceNoon);
+
+  if (bedtimes.length < MIN_CONSISTENCY_NIGHTS) return null;
+
+  const mean = bedtimes.reduce((sum, value) => sum + value, 0) / bedtimes.length;
+  const variance = bedtimes.reduce((sum, value) => sum + (value - mean) ** 2, 0) / bedtimes.length;
+  const deviation = Math.round(Math.sqrt(variance));
+
+  return {
+    averageBedtime: toTimeString(mean + NOON_MINUTES),
+    bedtimeDeviationMinutes: deviation,
+    level: CONSISTENCY_THRESHOLDS.find(t => deviation <= t.maxMinutes)?.level ?? 'irregular',
+    sampleSize: bedtimes.length,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * tdeeEstimate - Adaptive maintenance calorie (TDEE) estimate
+ *
+ * Energy balance over a rolling window: what you ate, minus what your
+ * trend weight says you stored or burned (~3500 kcal per lb).
+ * Uses the same smoothed trend as WeightChart so daily water swings
+ * don't move the estimate.
+ *
+ * TypeScript Concepts:
+ * - Union types for confidence levels
+ * - Combining several pure modules
+ */
+
+import { calculateCalories } from '../../context/AppContext';
+import { calculateTrend, calculateWeeklyRate } from './weightTrend';
+import { addDays, formatShortDate } from './dateKeys';
+import { hasFood } from './healthRecords';
+import type { DayRecord } from './healthRecords';
+import { LBS_PER_KG } from './units';
+import type { UnitSystem } from './units';
+
+export type EstimateConfidence = 'low' | 'medium' | 'high';
+
+export interface TdeeEstimate {
+  /** Estimated maintenance calories per day */
+  tdee: number;
+  /** Plus/minus range reflecting how much data we have */
+  uncertainty: number;
+  confidence: EstimateConfidence;
+  /** Average logged intake over the window */
+  averageIntake: number;
+  /** Trend weight change in lbs per week */
+  weeklyRate: number;
+  /** Days with food logged / with a weigh-in */
+  intakeDays: number;
+  weighInDays: number;
+  windowDays: number;
+}
+
+/** Rolling window length */
+export const TDEE_WINDOW_DAYS = 28;
+
+/** kcal in a pound of body weight */
+const KCAL_PER_LB = 3500;
+
+/** Minimum data before we show any estimate */
+const MIN_INTAKE_DAYS = 7;
+const MIN_WEIGH_IN_DAYS = 3;
+
+/** Never recommend eating below this */
+export const MIN_CALORIE_GOAL = 1200;
+
+/**
+ * Weekly rate choices for the recommendation, in round numbers of the
+ * user's unit (value is always lbs/week, negative = loss)
+ */
+export const WEEKLY_RATE_OPTIONS: Record<UnitSystem, { value: number; label: string }[]> = {
+  imperial: [
+    { value: -2, label: 'Lose 2 lb/wk' },
+    { value: -1.5, label: 'Lose 1.5 lb/wk' },
+    { value: -1, label: 'Lose 1 lb/wk' },
+    { value: -0.5, label: 'Lose 0.5 lb/wk' },
+    { value: 0, label: 'Maintain' },
+    { value: 0.5, label: 'Gain 0.5 lb/wk' },
+  ],
+  metric: [
+    { value: -1 * LBS_PER_KG, label: 'Lose 1 kg/wk' },
+    { value: -0.75 * LBS_PER_KG, label: 'Lose 0.75 kg/wk' },
+    { value: -0.5 * LBS_PER_KG, label: 'Lose 0.5 kg/wk' },
+    { value: -0.25 * LBS_PER_KG, label: 'Lose 0.25 kg/wk' },
+    { value: 0, label: 'Maintain' },
+    { value: 0.25 * LBS_PER_KG, label: 'Gain 0.25 kg/wk' },
+  ],
+};
+
+/** Preselected rate: 1 lb or 0.5 kg per week */
+export const DEFAULT_WEEKLY_RATE: Record<UnitSystem, number> = {
+  imperial: -1,
+  metric: -0.5 * LBS_PER_KG,
+};
+
+const CONFIDENCE_UNCERTAINTY: Record<EstimateConfidence, number> = {
+  high: 100,
+  medium: 200,
+  low: 350,
+};
+
+/**
+ * Confidence from how much of the window is logged
+ */
+function getConfidence(intakeDays: number, weighInDays: number): EstimateConfidence {
+  if (intakeDays >= 21 && weighInDays >= 14) return 'high';
+  if (intakeDays >= 14 && weighInDays >= 7) return 'medium';
+  return 'low';
+}
+
+/**
+ * Estimate TDEE from the last TDEE_WINDOW_DAYS ending at `endDate`.
+ * Returns null when there isn't enough data yet.
+ */
+export function estimateTdee(
+  days: DayRecord[],
+  endDate: string,
+  windowDays: number = TDEE_WINDOW_DAYS
+): TdeeEstimate | null {
+  const startDate = addDays(endDate, -(windowDays - 1));
+  const windowData = days
+    .filter(day => day.date >= startDate && day.date <= endDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Days with nothing logged are skipped, not counted as 0 kcal
+  const intakes = windowData
+    .filter(hasFood)
+    .map(day => calculateCalories(day.protein, day.carbs, day.fat));
+  const weighIns = windowData
+    .filter(day => day.weight !== null)
+    .map(day => ({ date: formatShortDate(day.date), fullDate: day.date, weight: day.weight as number }));
+
+  if (intakes.length < MIN_INTAKE_DAYS || weighIns.length < MIN_WEIGH_IN_DAYS) {
+    return null;
+  }
+
+  const averageIntake = intakes.reduce((sum, calories) => sum + calories, 0) / intakes.length;
+  const weeklyRate = calculateWeeklyRate(calculateTrend(weighIns));
+  const dailyStored = (weeklyRate * KCAL_PER_LB) / 7;
+  const confidence = getConfidence(intakes.length, weighIns.length);
+
+  return {
+    tdee: Math.round(averageIntake - dailyStored),
+    uncertainty: CONFIDENCE_UNCERTAINTY[confidence],
+    confidence,
+    averageIntake: Math.round(averageIntake),
+    weeklyRate,
+    intakeDays: intakes.length,
+    weighInDays: weighIns.length,
+    windowDays,
+  };
+}
+
+/**
+ * Calorie goal for a target weekly rate, rounded to the nearest 10 kcal
+ */
+export function recommendCalorieGoal(tdee: number, targetWeeklyRate: number): number {
+  const goal = tdee + (targetWeeklyRate * KCAL_PER_LB) / 7;
+  return Math.max(MIN_CALORIE_GOAL, Math.round(goal / 10) * 10);
+}
@@ -0,0 +1,144 @@
+/**
+ * units - Metric/imperial display for body weight, height and measurements
+ *
+ * Values are always stored in lbs, feet/inches and inches; these helpers convert
+ * at the edges (inputs, chart axes, tooltips, exports) so every screen
+ * rounds the same way.
+ *
+ * TypeScript Concepts:
+ * - Union types for unit systems
+ * - Lookup records keyed by a union
+ */
+
+/** User's unit preference */
+export type UnitSystem = 'imperial' | 'metric';
+
+export type WeightUnit = 'lbs' | 'kg';
+
+export type LengthUnit = 'in' | 'cm';
+
+/** Height as stored on the profile */
+export interface FeetInches {
+  feet: number;
+  inches: number;
+}
+
+export const UNIT_SYSTEM_OPTIONS: { value: UnitSystem; label: string }[] = [
+  { value: 'imperial', label: 'lbs, ft/in' },
+  { value: 'metric', label: 'kg, cm' },
+];
+
+/** Exact by definition */
+export const KG_PER_LB = 0.45359237;
+export const LBS_PER_KG = 1 / KG_PER_LB;
+export const CM_PER_INCH = 2.54;
+
+export const WEIGHT_UNITS: Record<UnitSystem, WeightUnit> = {
+  imperial: 'lbs',
+  metric: 'kg',
+};
+
+export const LENGTH_UNITS: Record<UnitSystem, LengthUnit> = {
+  imperial: 'in',
+  metric: 'cm',
+};
+
+/** Stored lbs keep two decimals so a kg entry shows back unchanged */
+const STORED_WEIGHT_DECIMALS = 2;
+
+/** Same for stored inches, so a cm entry shows back unchanged */
+const STORED_LENGTH_DECIMALS = 2;
+
+/**
+ * Round to a number of decimals
+ */
+export function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Stored lbs -> value in the user's unit (unrounded, for charts and math).
+ * Also works for differences such as a weekly rate.
+ */
+export function toDisplayWeight(lbs: number, system: UnitSystem): number {
+  return system === 'metric' ? lbs * KG_PER_LB : lbs;
+}
+
+/**
+ * Value typed in the user's unit -> lbs for storage
+ */
+export function fromDisplayWeight(value: number, system: UnitSystem): number {
+  const lbs = system === 'metric' ? value * LBS_PER_KG : value;
+  return roundTo(lbs, STORED_WEIGHT_DECIMALS);
+}
+
+/**
+ * Stored lbs rounded for an input, or null if not logged
+ */
+export function toWeightInputValue(lbs: number | null, system: UnitSystem): number | null {
+  return lbs === null ? null : roundTo(toDisplayWeight(lbs, system), 1);
+}
+
+/**
+ * e.g. "165.2 lbs" / "74.9 kg"
+ */
+export function formatWeight(lbs: number, system: UnitSystem, decimals: number = 1): string {
+  return `${toDisplayWeight(lbs, system).toFixed(decimals)} ${WEIGHT_UNITS[system]}`;
+}
+
+/**
+ * Stored inches -> value in the user's unit (unrounded)
+ */
+export function toDisplayLength(inches: number, system: UnitSystem): number {
+  return system === 'metric' ? inches * CM_PER_INCH : inches;
+}
+
+/**
+ * Value typed in the user's unit -> inches for storage
+ */
+export function fromDisplayLength(value: number, system: UnitSystem): number {
+  const inches = system === 'metric' ? value / CM_PER_INCH : value;
+  return roundTo(inches, STORED_LENGTH_DECIMALS);
+}
+
+/**
+ * Feet/inches -> total inches
+ */
+export function toTotalInches(height: FeetInches): number {
+  return height.feet * 12 + height.inches;
+}
+
+/**
+ * Feet/inches -> whole centimeters
+ */
+export function heightToCm(height: FeetInches): number {
+  return Math.round(toTotalInches(height) * CM_PER_INCH);
+}
+
+/**
+ * Centimeters -> feet/inches for storage.
+ * Inches keep one decimal so whole-cm entries round-trip exactly.
+ */
+export function cmToHeight(cm: number): FeetInches {
+  const totalInches = roundTo(cm / CM_PER_INCH, 1);
+  const feet = Math.floor(totalInches / 12);
+  return { feet, inches: roundTo(totalInches - feet * 12, 1) };
+}
+
+/**
+ * Height rounded to whole inches for display (5' 11.6" -> 6' 0")
+ */
+export function toWholeFeetInches(height: FeetInches): FeetInches {
+  const totalInches = Math.round(toTotalInches(height));
+  return { feet: Math.floor(totalInches / 12), inches: totalInches % 12 };
+}
+
+/**
+ * e.g. "5 ft 10 in" / "178 cm"
+ */
+export function formatHeight(height: FeetInches, system: UnitSystem): string {
+  if (system === 'metric') return `${heightToCm(height)} cm`;
+  const { feet, inches } = toWholeFeetInches(height);
+  return `${feet} ft ${inches} in`;
+}
@@ -0,0 +1,80 @@
+/**
+ * useDaySync - React hook for merging the server's days into ours
+ *
+ * AppContext calls reconcile() with the days it loads from the server.
+ * Dates that merge cleanly are saved and marked synced; dates edited on
+ * both devices wait in conflicts until DayConflictResolver calls resolve().
+ *
+ * TypeScript Concepts:
+ * - Custom hooks
+ * - useRef for the latest props inside stable callbacks
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { mergeRemoteDays } from './dayMerge';
+import type { DayMergeResult } from './dayMerge';
+import { getQueuedDates, loadDaySyncTimes, loadQueue, markDaysSynced } from './offlineQueue';
+import type { DayRecord } from './healthRecords';
+
+export interface DaySync {
+  /** Dates edited on both devices, waiting for the user's pick */
+  conflicts: DayMergeResult[];
+  /** Merge the server's days and save the ones that changed; returns how many */
+  reconcile: (remoteDays: DayRecord[]) => Promise<number>;
+  /** Save a day resolved in DayConflictResolver */
+  resolve: (day: DayRecord) => Promise<void>;
+}
+
+/**
+ * useDaySync - Three-way merge around a save handler
+ */
+export function useDaySync(
+  days: DayRecord[],
+  onSave: (changedDays: DayRecord[]) => Promise<void>
+): DaySync {
+  const [conflicts, setConflicts] = useState<DayMergeResult[]>([]);
+
+  // Latest days and save handler without re-creating callbacks every render
+  const daysRef = useRef(days);
+  const onSaveRef = useRef(onSave);
+
+  useEffect(() => {
+    daysRef.current = days;
+    onSaveRef.current = onSave;
+  }, [days, onSave]);
+
+  const reconcile = useCallback(async (remoteDays: DayRecord[]) => {
+    const pulledAt = new Date().toISOString();
+    try {
+      const syncedAt = await loadDaySyncTimes();
+      const result = mergeRemoteDays(daysRef.current, remoteDays, syncedAt);
+      if (result.changed.length > 0) await onSaveRef.current(result.changed);
+
+      // Conflicting dates stay unsynced until the user picks, and dates
+      // with queued writes until flushQueue sends them
+      const conflictDates = new Set(result.conflicts.map((conflict) => conflict.merged.date));
+      const queuedDates = getQueuedDates(await loadQueue());
+      await markDaysSynced(
+        remoteDays
+          .map((day) => day.date)
+          .filter((date) => !conflictDates.has(date) && !queuedDates.has(date)),
+        pulledAt
+      );
+      setConflicts(result.conflicts);
+      return result.changed.length;
+    } catch (error) {
+      console.error('Failed to merge server days:', error);
+      return 0;
+    }
+  }, []);
+
+  const resolve = useCallback(async (day: DayRecord) => {
+    await onSaveRef.current([day]);
+    if (!getQueuedDates(await loadQueue()).has(day.date)) {
+      await markDaysSynced([day.date], new Date().toISOString());
+    }
+    setConflicts((prev) => prev.filter((conflict) => conflict.merged.date !== day.date));
+  }, []);
+
+  return { conflicts, reconcile, resolve };
+}
@@ -0,0 +1,75 @@
+/**
+ * useHealthSync - React hook for pulling data from a health provider
+ *
+ * Tracks the status of the last sync, when data last came in, and any
+ * error to show. Changed days go to the save handler in one batch.
+ *
+ * TypeScript Concepts:
+ * - Custom hooks
+ * - Interfaces as parameters (any HealthDataProvider works)
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { applyProviderDays, getLastSyncedAt } from './healthProviders';
+import type { HealthDataProvider, SyncStatus } from './healthProviders';
+import type { DayRecord } from './healthRecords';
+
+export interface HealthSync {
+  status: SyncStatus;
+  /** Provider used for the last sync */
+  providerLabel: string | null;
+  /** ISO timestamp of the last successful sync */
+  lastSyncedAt: string | null;
+  error: string | null;
+  /** Read from a provider and save the days that changed; returns how many */
+  sync: (provider: HealthDataProvider) => Promise<number>;
+}
+
+/**
+ * useHealthSync - Sync status around a save handler
+ */
+export function useHealthSync(
+  days: DayRecord[],
+  onSave: (changedDays: DayRecord[]) => Promise<void>
+): HealthSync {
+  const [status, setStatus] = useState<SyncStatus>('idle');
+  const [providerLabel, setProviderLabel] = useState<string | null>(null);
+  const [syncedAt, setSyncedAt] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Latest days and save handler without re-creating sync every render
+  const daysRef = useRef(days);
+  const onSaveRef = useRef(onSave);
+
+  useEffect(() => {
+    daysRef.current = days;
+    onSaveRef.current = onSave;
+  }, [days, onSave]);
+
+  const sync = useCallback(async (provider: HealthDataProvider) => {
+    setStatus('syncing');
+    setProviderLabel(provider.label);
+    setError(null);
+    try {
+      const readings = await provider.fetchDays();
+      const changedDays = applyProviderDays(daysRef.current, readings, provider.id);
+      if (changedDays.length > 0) await onSaveRef.current(changedDays);
+      setSyncedAt(new Date().toISOString());
+      setStatus('synced');
+      return changedDays.length;
+    } catch (syncError) {
+      console.error('Failed to sync health data:', syncError);
+      setError(syncError instanceof Error ? syncError.message : 'Sync failed');
+      setStatus('error');
+      return 0;
+    }
+  }, []);
+
+  return {
+    status,
+    providerLabel,
+    lastSyncedAt: syncedAt ?? getLastSyncedAt(days),
+    error,
+    sync,
+  };
+}
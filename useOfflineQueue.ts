@@ -0,0 +1,193 @@
+/**
+ * useOfflineQueue - React hook around the offline write queue
+ *
+ * AppContext calls enqueue() from each save handler. The mutation is
+ * persisted to IndexedDB first, then the local state update runs
+ * (optimistic), and the queue is flushed now, on reconnect, and whenever
+ * the next backoff timer comes due. createQueuedSaves builds the save props
+ * for GoalEditor, ProfileField, CycleField and RatingInput on top of enqueue.
+ *
+ * TypeScript Concepts:
+ * - Custom hooks
+ * - useRef for values that shouldn't trigger re-renders
+ * - Generic callbacks
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Rating } from '../../context/AppContext';
+import {
+  createMutation,
+  discardMutation,
+  flushQueue,
+  loadQueue,
+  putMutation,
+  retryFailed,
+} from './offlineQueue';
+import type { MutationKind, MutationPayloads, MutationSender, QueuedMutation } from './offlineQueue';
+import type { CycleSettings, GoalSettings, ProfileSettings } from './healthRecords';
+
+export interface OfflineQueue {
+  /** Writes not yet confirmed by the server */
+  pendingCount: number;
+  /** Writes that gave up after repeated failures */
+  failedMutations: QueuedMutation[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  /** Queue a change for the server, then apply it locally (rejects without applying if it can't be saved) */
+  enqueue: <K extends MutationKind>(
+    kind: K,
+    payload: MutationPayloads[K],
+    applyLocally?: () => void
+  ) => Promise<void>;
+  /** Retry all failed writes */
+  retry: () => Promise<void>;
+  /** Give up on one failed write */
+  discard: (id: string) => Promise<void>;
+}
+
+/** Applies a mutation to local state (AppContext's optimistic update) */
+export type MutationApplier = <K extends MutationKind>(kind: K, payload: MutationPayloads[K]) => void;
+
+/** Save props for the settings and rating components; each resolves once the change is queued */
+export interface QueuedSaves {
+  /** GoalEditor onSave for one goal */
+  saveGoal: (key: keyof GoalSettings) => (value: number) => Promise<void>;
+  /** ProfileField onChange for one profile setting */
+  saveProfileField: (key: keyof ProfileSettings) => (value: ProfileSettings[keyof ProfileSettings]) => Promise<void>;
+  /** CycleField onChange for one cycle setting */
+  saveCycleField: (key: keyof CycleSettings) => (value: CycleSettings[keyof CycleSettings]) => Promise<void>;
+  /** RatingInput onSave for one rating on one date */
+  saveRating: (
+    date: string,
+    key: MutationPayloads['saveRating']['key']
+  ) => (value: Rating) => Promise<void>;
+}
+
+/**
+ * Save handlers that persist each change to the queue before applying it,
+ * so edits made offline survive and retry instead of being dropped
+ */
+export function createQueuedSaves(enqueue: OfflineQueue['enqueue'], apply: MutationApplier): QueuedSaves {
+  const save = <K extends MutationKind>(kind: K, payload: MutationPayloads[K]) =>
+    enqueue(kind, payload, () => apply(kind, payload));
+
+  return {
+    saveGoal: (key) => (value) => save('saveGoal', { key, value }),
+    saveProfileField: (key) => (value) => save('saveProfileField', { key, value }),
+    saveCycleField: (key) => (value) => save('saveCycleField', { key, value }),
+    saveRating: (date, key) => (value) => save('saveRating', { date, key, value }),
+  };
+}
+
+/**
+ * useOfflineQueue - Persisted, ordered, retrying writes
+ */
+export function useOfflineQueue(send: MutationSender): OfflineQueue {
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Latest sender without re-creating callbacks every render
+  const sendRef = useRef(send);
+  const isFlushingRef = useRef(false);
+  // Set when a flush is requested while one is already running
+  const flushAgainRef = useRef(false);
+
+  useEffect(() => {
+    sendRef.current = send;
+  }, [send]);
+
+  const flush = useCallback(async () => {
+    if (!navigator.onLine) return;
+    if (isFlushingRef.current) {
+      flushAgainRef.current = true;
+      return;
+    }
+
+    isFlushingRef.current = true;
+    setIsSyncing(true);
+    try {
+      do {
+        flushAgainRef.current = false;
+        await flushQueue((mutation) => sendRef.current(mutation));
+        // Re-read instead of using flushQueue's copy, which misses writes queued mid-flush
+        setQueue(await loadQueue());
+      } while (flushAgainRef.current && navigator.onLine);
+    } catch (error) {
+      console.error('Failed to sync offline queue:', error);
+    } finally {
+      isFlushingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, []);
+
+  // Load anything left over from a previous session, then try to send it
+  useEffect(() => {
+    loadQueue()
+      .then((saved) => {
+        setQueue(saved);
+        return flush();
+      })
+      .catch((error) => console.error('Failed to load offline queue:', error));
+  }, [flush]);
+
+  // Track connectivity and flush when it comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      void flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flush]);
+
+  // Wake up when the head of the queue is due for a retry
+  const head = queue[0];
+  useEffect(() => {
+    if (!head || head.status === 'failed' || !isOnline) return;
+    const delay = Math.max(0, head.nextAttemptAt - Date.now());
+    const timer = setTimeout(() => void flush(), delay);
+    return () => clearTimeout(timer);
+  }, [head, isOnline, flush]);
+
+  const enqueue = useCallback(async <K extends MutationKind>(
+    kind: K,
+    payload: MutationPayloads[K],
+    applyLocally?: () => void
+  ) => {
+    // Persist before touching local state so a failed write isn't shown as saved
+    const mutation = createMutation(kind, payload);
+    await putMutation(mutation);
+    applyLocally?.();
+    setQueue((prev) => (prev.some((queued) => queued.id === mutation.id) ? prev : [...prev, mutation]));
+    void flush();
+  }, [flush]);
+
+  const retry = useCallback(async () => {
+    await retryFailed();
+    setQueue(await loadQueue());
+    await flush();
+  }, [flush]);
+
+  const discard = useCallback(async (id: string) => {
+    await discardMutation(id);
+    setQueue((prev) => prev.filter((mutation) => mutation.id !== id));
+    await flush();
+  }, [flush]);
+
+  return {
+    pendingCount: queue.filter((mutation) => mutation.status === 'pending').length,
+    failedMutations: queue.filter((mutation) => mutation.status === 'failed'),
+    isOnline,
+    isSyncing,
+    enqueue,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * useProgressPhotos - React hook around the on-device photo store
+ *
+ * Loads photos once, then keeps local state in step with IndexedDB as
+ * photos are added or removed. Errors are kept for the UI to show
+ * (e.g. storage full) instead of failing silently.
+ *
+ * TypeScript Concepts:
+ * - Custom hooks
+ * - Functional state updates after async writes
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { MAX_PHOTO_BYTES, createPhoto, deletePhoto, loadPhotos, putPhoto, sortPhotos } from './progressPhotos';
+import type { PhotoPose, ProgressPhoto } from './progressPhotos';
+
+export interface ProgressPhotos {
+  photos: ProgressPhoto[];
+  isLoading: boolean;
+  error: string | null;
+  /** Save a photo for a date and pose, replacing any already there */
+  addPhoto: (date: string, pose: PhotoPose, file: File) => Promise<void>;
+  removePhoto: (id: string) => Promise<void>;
+}
+
+/**
+ * useProgressPhotos - Photos with add/remove backed by IndexedDB
+ */
+export function useProgressPhotos(): ProgressPhotos {
+  const [photos, setPhotos] = useState<ProgressPhoto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPhotos()
+      .then(setPhotos)
+      .catch((loadError) => {
+        console.error('Failed to load progress photos:', loadError);
+        setError('Could not open photo storage on this device');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const addPhoto = useCallback(async (date: string, pose: PhotoPose, file: File) => {
+    if (!file.type.startsWith('image/')) {
+      setError('Choose an image file');
+      return;
+    }
+    if (file.size > MAX_PHOTO_BYTES) {
+      setError('Photo is too large (20 MB max)');
+      return;
+    }
+
+    setError(null);
+    const photo = createPhoto(date, pose, file);
+    try {
+      await putPhoto(photo);
+      setPhotos((prev) => sortPhotos([...prev.filter(existing => existing.id !== photo.id), photo]));
+    } catch (saveError) {
+      console.error('Failed to save progress photo:', saveError);
+      setError('Could not save photo (device storage may be full)');
+    }
+  }, []);
+
+  const removePhoto = useCallback(async (id: string) => {
+    try {
+      await deletePhoto(id);
+      setPhotos((prev) => prev.filter(photo => photo.id !== id));
+    } catch (deleteError) {
+      console.error('Failed to delete progress photo:', deleteError);
+      setError('Could not delete photo');
+    }
+  }, []);
+
+  return { photos, isLoading, error, addPhoto, removePhoto };
+}
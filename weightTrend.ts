@@ -0,0 +1,145 @@
+/**
+ * weightTrend - Smoothed weight trend and rate-of-change helpers
+ *
+ * Shared by WeightChart, QuickStatCard and the Overview page so they
+ * all agree on the same trend numbers.
+ *
+ * TypeScript Concepts:
+ * - Pure functions over typed arrays
+ * - Optional fields with fallbacks
+ */
+
+import { addDays, daysBetween, toDateKey } from './dateKeys';
+
+export interface WeightDataPoint {
+  date: string; // "MM/DD" format
+  weight: number;
+  /** Full date ("YYYY-MM-DD"), used for day spacing when present */
+  fullDate?: string;
+}
+
+export interface WeightTrendPoint extends WeightDataPoint {
+  /** Exponentially smoothed weight */
+  trend: number;
+}
+
+export interface WeightTrendSummary {
+  /** Latest smoothed weight */
+  currentTrend: number;
+  /** Change in lbs per week (negative = losing) */
+  weeklyRate: number;
+  /** Projected date ("YYYY-MM-DD") to reach target, null if not heading there */
+  projectedDate: string | null;
+}
+
+/** Smoothing factor - 0.1 is the classic "Hacker's Diet" value */
+export const DEFAULT_SMOOTHING = 0.1;
+
+/**
+ * Day offset of each point from the first one.
+ * Falls back to consecutive days when full dates are missing.
+ */
+function getDayOffsets(data: WeightDataPoint[]): number[] {
+  const hasFullDates = data.every(d => d.fullDate);
+  if (!hasFullDates) {
+    return data.map((_, index) => index);
+  }
+
+  return data.map(d => daysBetween(data[0].fullDate!, d.fullDate!));
+}
+
+/**
+ * Exponentially weighted moving average of weight.
+ * Gaps between logged days are accounted for so a missed week
+ * pulls the trend further toward the next reading.
+ */
+export function calculateTrend(
+  data: WeightDataPoint[],
+  smoothing: number = DEFAULT_SMOOTHING
+): WeightTrendPoint[] {
+  if (data.length === 0) return [];
+
+  const offsets = getDayOffsets(data);
+  let trend = data[0].weight;
+
+  return data.map((point, index) => {
+    if (index > 0) {
+      const gap = Math.max(1, offsets[index] - offsets[index - 1]);
+      const alpha = 1 - Math.pow(1 - smoothing, gap);
+      trend = trend + alpha * (point.weight - trend);
+    }
+    return { ...point, trend };
+  });
+}
+
+/**
+ * Weekly rate of change from a least-squares fit of the trend line
+ */
+export function calculateWeeklyRate(points: WeightTrendPoint[]): number {
+  if (points.length < 2) return 0;
+
+  const offsets = getDayOffsets(points);
+  const n = points.length;
+  const meanX = offsets.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.trend, 0) / n;
+
+  let numerator = 0;
+  let denominator = 0;
+  points.forEach((point, index) => {
+    const dx = offsets[index] - meanX;
+    numerator += dx * (point.trend - meanY);
+    denominator += dx * dx;
+  });
+
+  if (denominator === 0) return 0;
+  return (numerator / denominator) * 7;
+}
+
+/**
+ * Projected date to hit the target weight at the current rate.
+ * Returns null when the trend is flat or moving away from the target.
+ */
+export function projectTargetDate(
+  currentTrend: number,
+  weeklyRate: number,
+  targetWeight: number,
+  from: Date = new Date()
+): string | null {
+  const remaining = targetWeight - currentTrend;
+  const today = toDateKey(from);
+  if (remaining === 0) return today;
+  if (weeklyRate === 0 || Math.sign(remaining) !== Math.sign(weeklyRate)) {
+    return null;
+  }
+
+  const days = Math.ceil((remaining / weeklyRate) * 7);
+  return addDays(today, days);
+}
+
+/**
+ * Full trend summary for a weight series
+ */
+export function summarizeWeightTrend(
+  data: WeightDataPoint[],
+  targetWeight: number | null = null,
+  smoothing: number = DEFAULT_SMOOTHING
+): WeightTrendSummary | null {
+  if (data.length < 2) return null;
+
+  const points = calculateTrend(data, smoothing);
+  const currentTrend = points[points.length - 1].trend;
+  const weeklyRate = calculateWeeklyRate(points);
+  const projectedDate = targetWeight !== null
+    ? projectTargetDate(currentTrend, weeklyRate, targetWeight)
+    : null;
+
+  return { currentTrend, weeklyRate, projectedDate };
+}
+
+/**
+ * Format a weekly rate for display, e.g. "−0.8 lbs/wk"
+ */
+export function formatWeeklyRate(weeklyRate: number, unit: string = 'lbs'): string {
+  const sign = weeklyRate > 0 ? '+' : weeklyRate < 0 ? '−' : '';
+  return `${sign}${Math.abs(weeklyRate).toFixed(1)} ${unit}/wk`;
+}
@@ -0,0 +1,146 @@
+/**
+ * workouts - Exercise log entries and calories burned
+ *
+ * Calories are estimated with MET values (metabolic equivalents):
+ * kcal = (MET - 1) × kg × hours. The resting MET is subtracted because
+ * resting burn is already part of the user's TDEE and calorie goal, so
+ * only the extra burn should be added back to the budget.
+ *
+ * TypeScript Concepts:
+ * - Nested Record lookup tables
+ * - Omit<> for values the caller fills in (id)
+ */
+
+import { KG_PER_LB } from './units';
+import type { DayRecord } from './healthRecords';
+
+export type WorkoutType =
+  | 'walking'
+  | 'running'
+  | 'cycling'
+  | 'swimming'
+  | 'strength'
+  | 'hiit'
+  | 'yoga'
+  | 'sports'
+  | 'other';
+
+export type WorkoutIntensity = 'light' | 'moderate' | 'vigorous';
+
+export interface WorkoutEntry {
+  id: string;
+  type: WorkoutType;
+  durationMinutes: number;
+  intensity: WorkoutIntensity;
+  /** Estimated or typed in by the user */
+  caloriesBurned: number;
+  /** When the workout was logged (ISO timestamp) */
+  loggedAt: string;
+  /** When the workout was last edited (ISO timestamp, null if never) */
+  editedAt: string | null;
+}
+
+export const WORKOUT_TYPE_OPTIONS: { value: WorkoutType; label: string }[] = [
+  { value: 'walking', label: 'Walking' },
+  { value: 'running', label: 'Running' },
+  { value: 'cycling', label: 'Cycling' },
+  { value: 'swimming', label: 'Swimming' },
+  { value: 'strength', label: 'Strength training' },
+  { value: 'hiit', label: 'HIIT' },
+  { value: 'yoga', label: 'Yoga' },
+  { value: 'sports', label: 'Sports' },
+  { value: 'other', label: 'Other' },
+];
+
+export const WORKOUT_INTENSITY_OPTIONS: { value: WorkoutIntensity; label: string }[] = [
+  { value: 'light', label: 'Light' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'vigorous', label: 'Vigorous' },
+];
+
+/** Approximate METs from the Compendium of Physical Activities */
+const WORKOUT_METS: Record<WorkoutType, Record<WorkoutIntensity, number>> = {
+  walking: { light: 2.8, moderate: 3.5, vigorous: 5.0 },
+  running: { light: 7.0, moderate: 9.8, vigorous: 11.5 },
+  cycling: { light: 4.0, moderate: 6.8, vigorous: 10.0 },
+  swimming: { light: 5.8, moderate: 8.3, vigorous: 10.0 },
+  strength: { light: 3.5, moderate: 5.0, vigorous: 6.0 },
+  hiit: { light: 5.0, moderate: 8.0, vigorous: 10.0 },
+  yoga: { light: 2.0, moderate: 3.0, vigorous: 4.0 },
+  sports: { light: 4.0, moderate: 6.5, vigorous: 8.5 },
+  other: { light: 3.0, moderate: 5.0, vigorous: 7.0 },
+};
+
+/** Used when no weight has been logged yet */
+const DEFAULT_WEIGHT_KG = 70;
+
+/**
+ * Estimated extra calories burned (above resting)
+ */
+export function estimateCaloriesBurned(
+  type: WorkoutType,
+  intensity: WorkoutIntensity,
+  durationMinutes: number,
+  weightLbs: number | null
+): number {
+  const kg = weightLbs !== null ? weightLbs * KG_PER_LB : DEFAULT_WEIGHT_KG;
+  const netMet = Math.max(0, WORKOUT_METS[type][intensity] - 1);
+  return Math.round(netMet * kg * (durationMinutes / 60));
+}
+
+/**
+ * Build a workout entry; calories are estimated unless given
+ */
+export function createWorkout(
+  details: Pick<WorkoutEntry, 'type' | 'durationMinutes' | 'intensity'>,
+  weightLbs: number | null,
+  caloriesBurned: number | null = null,
+  now: Date = new Date()
+): Omit<WorkoutEntry, 'id'> {
+  return {
+    ...details,
+    caloriesBurned:
+      caloriesBurned ?? estimateCaloriesBurned(details.type, details.intensity, details.durationMinutes, weightLbs),
+    loggedAt: now.toISOString(),
+    editedAt: null,
+  };
+}
+
+/**
+ * Apply edits to a logged workout; calories are re-estimated unless given
+ */
+export function editWorkout(
+  workout: WorkoutEntry,
+  details: Pick<WorkoutEntry, 'type' | 'durationMinutes' | 'intensity'>,
+  weightLbs: number | null,
+  caloriesBurned: number | null = null,
+  now: Date = new Date()
+): WorkoutEntry {
+  return {
+    ...workout,
+    ...details,
+    caloriesBurned: createWorkout(details, weightLbs, caloriesBurned, now).caloriesBurned,
+    editedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Label for a workout type
+ */
+export function getWorkoutLabel(type: WorkoutType): string {
+  return WORKOUT_TYPE_OPTIONS.find(option => option.value === type)?.label ?? type;
+}
+
+/**
+ * Total calories burned on a day
+ */
+export function getCaloriesBurned(day: Pick<DayRecord, 'workouts'>): number {
+  return day.workouts.reduce((sum, workout) => sum + workout.caloriesBurned, 0);
+}
+
+/**
+ * Calories added to the day's budget (0 unless the user opted in)
+ */
+export function getExerciseAdjustment(day: Pick<DayRecord, 'workouts'>, addExerciseCalories: boolean): number {
+  return addExerciseCalories ? getCaloriesBurned(day) : 0;
+}